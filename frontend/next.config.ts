@@ -1,7 +1,12 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // Ship the content directory with the Node.js routes that read it
+  // (the admin document and re-embed routes list and re-embed the corpus)
+  outputFileTracingIncludes: {
+    "/api/initialize": ["./content/**/*"],
+    "/api/admin/**": ["./content/**/*"],
+  },
 };
 
 export default nextConfig;
@@ -0,0 +1,123 @@
+/**
+ * Offline retrieval evaluation (recall@k, MRR, nDCG, fact recall)
+ * `npx tsx scripts/evaluate.ts [options]`
+ * Or: `npm run evaluate -- [options]`
+ *
+ * --golden <path>    golden question set (default eval/golden.json)
+ * --out <path>       write the JSON report there instead of stdout
+ * --baseline <path>  earlier report to print metric deltas against
+ * --mode <mode>      hybrid | vector | lexical (default SEARCH_MODE)
+ * --k <list>         cutoffs, e.g. 1,3,5 (default)
+ * --use-env          use the configured EMBEDDING_PROVIDER / STORAGE_BACKEND
+ *                    instead of the local provider + in-memory store
+ *
+ * Library logs go to stderr, so stdout is only the report:
+ * `npm run --silent evaluate > before.json`, change settings, run again, diff.
+ */
+
+import { readFile, writeFile } from 'node:fs/promises';
+import { createStore, setStore } from '../src/lib/storage';
+import { createEmbeddingProvider, setEmbeddingProvider } from '../src/lib/embedding-providers';
+import { initializePortfolioData, loadPortfolioDocuments } from '../src/lib/vector-store';
+import { evaluateRetrieval, parseGoldenSet, type EvaluationReport, type EvaluationSummary } from '../src/lib/evaluation';
+import type { SearchMode } from '../src/lib/hybrid-search';
+
+const SEARCH_MODES: SearchMode[] = ['hybrid', 'vector', 'lexical'];
+
+function parseArgs(argv: string[]): Record<string, string | true> {
+  const args: Record<string, string | true> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const name = argv[i].replace(/^--/, '');
+    const next = argv[i + 1];
+    if (next !== undefined && !next.startsWith('--')) {
+      args[name] = next;
+      i++;
+    } else {
+      args[name] = true;
+    }
+  }
+  return args;
+}
+
+function stringArg(args: Record<string, string | true>, name: string): string | undefined {
+  const value = args[name];
+  if (value === true) throw new Error(`--${name} needs a value`);
+  return value;
+}
+
+function formatSummary(summary: EvaluationSummary, baseline?: EvaluationSummary): string {
+  const delta = (value: number, before: number | undefined) => {
+    if (before === undefined) return '';
+    const change = value - before;
+    return change === 0 ? ' (=)' : ` (${change > 0 ? '+' : ''}${change.toFixed(4)})`;
+  };
+  const byK = (label: string, values: Record<string, number> | undefined, before?: Record<string, number>) =>
+    values
+      ? Object.entries(values).map(([k, value]) => `  ${label}@${k}: ${value.toFixed(4)}${delta(value, before?.[k])}`)
+      : [];
+
+  return [
+    `Questions: ${summary.questions}`,
+    ...byK('recall', summary.recall, baseline?.recall),
+    ...byK('nDCG', summary.ndcg, baseline?.ndcg),
+    `  MRR: ${summary.mrr.toFixed(4)}${delta(summary.mrr, baseline?.mrr)}`,
+    ...byK('fact recall', summary.factRecall, baseline?.factRecall),
+  ].join('\n');
+}
+
+async function main() {
+  // Keep stdout for the report - everything the library logs is diagnostics
+  const print = console.log;
+  console.log = console.error;
+
+  try {
+    const args = parseArgs(process.argv.slice(2));
+    const goldenPath = stringArg(args, 'golden') || 'eval/golden.json';
+    const mode = stringArg(args, 'mode') as SearchMode | undefined;
+    if (mode && !SEARCH_MODES.includes(mode)) {
+      throw new Error(`--mode must be one of ${SEARCH_MODES.join(', ')}`);
+    }
+    const k = stringArg(args, 'k')?.split(',').map(Number);
+    if (k && (k.length === 0 || !k.every((value) => Number.isInteger(value) && value > 0))) {
+      throw new Error('--k must be a comma-separated list of positive integers');
+    }
+
+    if (!args['use-env']) {
+      // Fully offline: deterministic local vectors, nothing persisted
+      setStore(createStore('memory'));
+      setEmbeddingProvider(createEmbeddingProvider('local'));
+    }
+
+    const goldenSet = parseGoldenSet(JSON.parse(await readFile(goldenPath, 'utf8')));
+    console.error(`Evaluating ${goldenSet.questions.length} questions from ${goldenPath}...`);
+
+    await initializePortfolioData();
+    const corpusIds = (await loadPortfolioDocuments()).map((doc) => doc.id);
+    const report = await evaluateRetrieval(goldenSet, corpusIds, { mode, k });
+
+    const baselinePath = stringArg(args, 'baseline');
+    const baseline = baselinePath
+      ? (JSON.parse(await readFile(baselinePath, 'utf8')) as EvaluationReport).summary
+      : undefined;
+
+    console.error(`\n${formatSummary(report.summary, baseline)}`);
+    if (report.unknownDocuments.length > 0) {
+      console.error(`\nWarning: expected documents not in the corpus: ${report.unknownDocuments.join(', ')}`);
+    }
+
+    const json = JSON.stringify(report, null, 2);
+    const outPath = stringArg(args, 'out');
+    if (outPath) {
+      await writeFile(outPath, `${json}\n`);
+      console.error(`\nReport written to ${outPath}`);
+    } else {
+      print(json);
+    }
+    process.exit(0);
+  } catch (error) {
+    console.error('Error running evaluation:', error);
+    process.exit(1);
+  }
+}
+
+main();
@@ -1,17 +1,28 @@
 /**
- * Script to initialize portfolio data in Redis
+ * Script to initialize portfolio data in the configured store
+ * Loads documents from the content directory (CONTENT_DIR, default `content/`)
  * `npx tsx scripts/initialize.ts`
- * Or: `npm run initialize` (if added to package.json)
+ * Or: `npm run initialize`
  */
 
-import { portfolioDocuments } from '../src/data/portfolio';
+import { getContentDirectory, loadContentDirectory } from '../src/lib/ingestion';
 import { initializePortfolioData } from '../src/lib/vector-store';
 
 async function main() {
   try {
+    const contentDir = getContentDirectory();
+    console.log(`Loading portfolio documents from ${contentDir}/...`);
+    const documents = await loadContentDirectory(contentDir);
+    if (!documents || documents.length === 0) {
+      throw new Error(`No documents found in ${contentDir}/`);
+    }
+
     console.log('Initializing portfolio data...');
-    await initializePortfolioData(portfolioDocuments);
-    console.log(`Successfully initialized ${portfolioDocuments.length} portfolio documents!`);
+    // No explicit documents: the content directory is loaded again with admin API edits applied
+    const report = await initializePortfolioData();
+    const total = report.added.length + report.updated.length + report.unchanged.length;
+    console.log(`Successfully initialized ${total} portfolio documents!`);
+    console.log(JSON.stringify(report, null, 2));
     process.exit(0);
   } catch (error) {
     console.error('Error initializing portfolio data:', error);
@@ -0,0 +1,15 @@
+import type { Metadata } from 'next';
+import AdminDashboard from '@/components/admin/AdminDashboard';
+
+export const metadata: Metadata = {
+  title: 'Admin · RAG App Demo',
+  robots: { index: false, follow: false },
+};
+
+export default function AdminPage() {
+  return (
+    <div className="min-h-screen bg-[#222034]">
+      <AdminDashboard />
+    </div>
+  );
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { assertAdmin } from '@/lib/admin';
+import { purgeQueryCache } from '@/lib/query-cache';
+import { errorResponse } from '@/lib/errors';
+
+export const runtime = 'edge';
+
+/**
+ * DELETE - purge cached query embeddings and rewrites
+ *
+ * Requires `Authorization: Bearer {ADMIN_TOKEN}`
+ */
+export async function DELETE(req: Request) {
+  try {
+    await assertAdmin(req);
+    return NextResponse.json({ purged: await purgeQueryCache() });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
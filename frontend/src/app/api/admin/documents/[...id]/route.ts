@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import {
+  assertAdmin,
+  deleteDocument,
+  getDocument,
+  updateDocument,
+  validateDocumentId,
+  validateDocumentInput,
+} from '@/lib/admin';
+import { BadRequestError, errorResponse } from '@/lib/errors';
+
+export const runtime = 'nodejs';
+
+// Document ids can contain slashes (content/projects/app.md -> "projects/app")
+type Params = { params: Promise<{ id: string[] }> };
+
+async function documentId({ params }: Params): Promise<string> {
+  return validateDocumentId((await params).id.join('/'));
+}
+
+/**
+ * GET - one document (content + status)
+ * PUT - replace content and/or metadata `{ content?, metadata? }` and re-embed it
+ * DELETE - remove the document and its embeddings
+ *
+ * Requires `Authorization: Bearer {ADMIN_TOKEN}`
+ */
+export async function GET(req: Request, context: Params) {
+  try {
+    await assertAdmin(req);
+    return NextResponse.json(await getDocument(await documentId(context)));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function PUT(req: Request, context: Params) {
+  try {
+    await assertAdmin(req);
+    const body = await req.json().catch(() => {
+      throw new BadRequestError('Request body must be valid JSON');
+    });
+    return NextResponse.json(await updateDocument(await documentId(context), validateDocumentInput(body, false)));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function DELETE(req: Request, context: Params) {
+  try {
+    await assertAdmin(req);
+    return NextResponse.json(await deleteDocument(await documentId(context)));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { addDocument, assertAdmin, listDocuments, validateDocumentId, validateDocumentInput } from '@/lib/admin';
+import { BadRequestError, errorResponse } from '@/lib/errors';
+
+// Node.js runtime: the corpus is the content/ directory plus admin edits
+export const runtime = 'nodejs';
+
+/**
+ * GET - every document with its embedding status and hash
+ * POST - add a document `{ id, content, metadata? }` and embed it
+ *
+ * Requires `Authorization: Bearer {ADMIN_TOKEN}`
+ */
+export async function GET(req: Request) {
+  try {
+    await assertAdmin(req);
+    return NextResponse.json(await listDocuments());
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    await assertAdmin(req);
+    const body = await req.json().catch(() => {
+      throw new BadRequestError('Request body must be valid JSON');
+    });
+    if (typeof body?.id !== 'string') {
+      throw new BadRequestError('Invalid document', [{ path: 'id', message: 'must be a string' }]);
+    }
+
+    const id = validateDocumentId(body.id);
+    const { content, metadata } = validateDocumentInput(body);
+    const change = await addDocument(id, { content: content!, metadata });
+    return NextResponse.json(change, { status: 201 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { assertAdmin, forceReembed } from '@/lib/admin';
+import { BadRequestError, errorResponse } from '@/lib/errors';
+
+export const runtime = 'nodejs';
+
+/**
+ * POST - force re-embedding `{ ids?: string[] }` (all documents when omitted)
+ * Spends embedding quota even for unchanged documents
+ *
+ * Requires `Authorization: Bearer {ADMIN_TOKEN}`
+ */
+export async function POST(req: Request) {
+  try {
+    await assertAdmin(req);
+    const body = await req.json().catch(() => ({}));
+    const ids = body?.ids ?? [];
+    if (!Array.isArray(ids) || !ids.every((id) => typeof id === 'string')) {
+      throw new BadRequestError('Invalid re-embed request', [{ path: 'ids', message: 'must be an array of document ids' }]);
+    }
+    return NextResponse.json({ report: await forceReembed(ids) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
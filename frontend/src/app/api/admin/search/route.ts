@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import { assertAdmin } from '@/lib/admin';
+import { searchSimilarDocuments } from '@/lib/vector-store';
+import type { SearchMode } from '@/lib/hybrid-search';
+import { BadRequestError, errorResponse, type ValidationIssue } from '@/lib/errors';
+
+export const runtime = 'edge';
+
+const MODES: SearchMode[] = ['hybrid', 'vector', 'lexical'];
+const MAX_LIMIT = 50;
+
+/**
+ * POST - ad-hoc retrieval `{ query, mode?, limit? }`
+ * Returns `searchSimilarDocuments` results with per-retriever scores
+ * (no rewriting, reranking or MMR - the raw ranking)
+ *
+ * Requires `Authorization: Bearer {ADMIN_TOKEN}`
+ */
+export async function POST(req: Request) {
+  try {
+    await assertAdmin(req);
+    const body = await req.json().catch(() => {
+      throw new BadRequestError('Request body must be valid JSON');
+    });
+
+    const issues: ValidationIssue[] = [];
+    if (typeof body?.query !== 'string' || !body.query.trim()) {
+      issues.push({ path: 'query', message: 'must be a non-empty string' });
+    }
+    if (body?.mode !== undefined && !MODES.includes(body.mode)) {
+      issues.push({ path: 'mode', message: `must be one of ${MODES.join(', ')}` });
+    }
+    const limit = body?.limit ?? 10;
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      issues.push({ path: 'limit', message: `must be an integer from 1 to ${MAX_LIMIT}` });
+    }
+    if (issues.length > 0) {
+      throw new BadRequestError('Invalid search request', issues);
+    }
+
+    const started = Date.now();
+    const results = await searchSimilarDocuments(body.query.trim(), limit, { mode: body.mode });
+    return NextResponse.json({ results, tookMs: Date.now() - started });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
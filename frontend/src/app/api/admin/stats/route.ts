@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { assertAdmin } from '@/lib/admin';
+import { getQuotaUsage } from '@/lib/quota';
+import { getRateLimitAlgorithm, getRateLimitFailMode, getRateLimitTiers } from '@/lib/rate-limit';
+import { getStorageUsage } from '@/lib/vector-store';
+import { errorResponse } from '@/lib/errors';
+
+export const runtime = 'edge';
+
+/**
+ * GET - quota usage, rate limit configuration and storage usage
+ *
+ * Requires `Authorization: Bearer {ADMIN_TOKEN}`
+ */
+export async function GET(req: Request) {
+  try {
+    await assertAdmin(req);
+    const [quota, storage] = await Promise.all([getQuotaUsage(), getStorageUsage()]);
+
+    return NextResponse.json({
+      quota,
+      rateLimit: {
+        algorithm: getRateLimitAlgorithm(),
+        failMode: getRateLimitFailMode(),
+        tiers: getRateLimitTiers(),
+      },
+      storage,
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
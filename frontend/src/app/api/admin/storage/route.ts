@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { assertAdmin } from '@/lib/admin';
+import { getStorageUsage } from '@/lib/vector-store';
+import { errorResponse } from '@/lib/errors';
+
+export const runtime = 'edge';
+
+/**
+ * GET - vector storage usage
+ *
+ * Requires `Authorization: Bearer {ADMIN_TOKEN}`
+ */
+export async function GET(req: Request) {
+  try {
+    await assertAdmin(req);
+    return NextResponse.json(await getStorageUsage());
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
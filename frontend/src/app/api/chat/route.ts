@@ -1,8 +1,21 @@
-import { streamText } from 'ai';
-import { google } from '@ai-sdk/google';
-import { searchSimilarDocuments } from '@/lib/vector-store';
-import { checkRateLimit, getClientIdentifier } from '@/lib/rate-limit';
-import { RateLimitError } from '@/lib/embeddings';
+import { streamText, createUIMessageStream, createUIMessageStreamResponse, generateId } from 'ai';
+import { ensureIndexFresh, getStoredDocuments } from '@/lib/vector-store';
+import { retrieveContext, type RetrievalOptions } from '@/lib/retrieval';
+import { getQueryRewriteMode, rewriteQuery } from '@/lib/query-rewriting';
+import { toCitations, type ChatMessage } from '@/lib/citations';
+import { deriveMetadataFilter } from '@/lib/query-filters';
+import { checkRateLimit, getClientIdentifier, getRateLimitHeaders, type RateLimitResult } from '@/lib/rate-limit';
+import { AppError, RateLimitError, errorResponse } from '@/lib/errors';
+import { extractText, parseChatRequest, type ChatTurn } from '@/lib/chat-request';
+import { assembleContext, getContextBudget, selectHistory } from '@/lib/context-builder';
+import { updateSummary } from '@/lib/conversation-summary';
+import { createPromptRenderer, resolvePersona } from '@/lib/personas';
+import { conversationCookie, getOrCreateConversation, saveConversation, type Conversation } from '@/lib/conversations';
+import { assertAccess } from '@/lib/access-control';
+import { getChatModel, modelEntryId } from '@/lib/chat-models';
+import { assertAdmin } from '@/lib/admin';
+import { lookupAnswer, storeAnswer, type AnswerCacheLookup, type CachedAnswer } from '@/lib/answer-cache';
+import { isDebugRequested, timeStage, toRetrievalDebug, type ChatDebugInfo, type RetrievalDebug, type StageTimings } from '@/lib/chat-debug';
 
 // Edge Runtime gives us 60s timeout instead of 10s (needed for streaming)
 export const runtime = 'edge';
@@ -11,159 +24,230 @@ export const runtime = 'edge';
  * Chat API endpoint with RAG (Retrieval-Augmented Generation)
  * 
  * Uses Vercel AI SDK library (free) but bypasses Vercel AI Gateway (paid service)
- * Direct Google API calls via SDK provider = zero gateway costs
+ * Direct provider API calls via the SDK = zero gateway costs
  * 
  * Features:
- * - Rate limiting (10 requests/minute per IP)
+ * - Rate limiting per IP (per-minute and per-day tiers, `X-RateLimit-*` headers on every response)
  * - Auto-initializes embeddings if not found
  * - Auto-updates embeddings when portfolio changes
- * - Error handling for rate limits and API quotas
- * - Referer validation in production (prevents quota theft)
+ * - Typed errors mapped to status codes and a JSON body with a stable `code` (see lib/errors.ts)
+ * - Shared upstream quota budget per provider (a spent budget falls back to the next model, see lib/chat-models.ts)
+ * - Retries transient Gemini failures; circuit breaker stops calls after repeated failures
+ * - Origin allow-list + signed session tokens (prevents quota theft, see lib/access-control.ts)
+ * - History is loaded from the server-side conversation (cookie), not the request body
+ * - Prompt kept within a token budget: older turns are summarized, lowest-scoring chunks dropped
+ * - System prompt, temperature and model come from a persona (personas.json, lib/personas.ts)
+ * - Falls back through the CHAT_MODELS chain when a model is rate-limited or down (lib/chat-models.ts)
+ * - Rewrites follow-up questions into standalone search queries
+ * - Streams the retrieved chunks as a `data-citations` part right after `start`, before the answer
+ * - Repeated questions are answered from a semantic answer cache (lib/answer-cache.ts)
+ * - Debug mode (`X-Debug: 1` + admin token) adds a `data-debug` part with the prompt,
+ *   retrieval trace and stage timings (see lib/chat-debug.ts)
  */
 export async function POST(req: Request) {
+  // Rate limiting: RATE_LIMIT_REQUESTS_PER_MINUTE / RATE_LIMIT_REQUESTS_PER_DAY per IP
+  const rateLimit = await checkRateLimit(getClientIdentifier(req));
+
+  const response = rateLimit.allowed ? await handleChat(req) : rateLimitedResponse(rateLimit);
+
+  for (const [name, value] of Object.entries(getRateLimitHeaders(rateLimit))) {
+    response.headers.set(name, value);
+  }
+  return response;
+}
+
+function rateLimitedResponse(rateLimit: RateLimitResult): Response {
+  // Fail-closed: the limiter's store is down, so this isn't the client's fault
+  if (rateLimit.degraded) {
+    return errorResponse(new AppError('upstream_unavailable', 'Rate limiter unavailable. Please try again later.', {
+      retryAfter: rateLimit.retryAfter,
+    }));
+  }
+
+  return errorResponse(new RateLimitError('Too many requests. Please wait a moment before trying again.', rateLimit.retryAfter));
+}
+
+async function handleChat(req: Request): Promise<Response> {
+  const startedAt = Date.now();
+  const timings: StageTimings = {};
+
   try {
-    // Rate limiting: 10 requests per minute per IP
-    const clientId = getClientIdentifier(req);
-    const rateLimit = await checkRateLimit(clientId, 10, 60);
-
-    if (!rateLimit.allowed) {
-      return new Response(
-        JSON.stringify({
-          error: 'Rate limit exceeded',
-          message: 'Too many requests. Please wait a moment before trying again.',
-          retryAfter: rateLimit.retryAfter,
-          resetAt: rateLimit.resetAt,
-        }),
-        {
-          status: 429,
-          headers: {
-            'Content-Type': 'application/json',
-            'Retry-After': String(rateLimit.retryAfter || 60),
-            'X-RateLimit-Limit': '10',
-            'X-RateLimit-Remaining': '0',
-            'X-RateLimit-Reset': String(rateLimit.resetAt),
-          },
-        }
-      );
+    // Block other origins and clients without a session token (prevents quota theft)
+    await assertAccess(req);
+
+    // Debug output exposes the prompt and corpus, so it's admin-only (401/403 otherwise)
+    const debug = isDebugRequested(req);
+    if (debug) {
+      await assertAdmin(req);
     }
 
-    const { messages } = await req.json();
+    // Role, part types and sizes are validated before the body is used
+    const { messageId, query: queryText, persona: requestedPersona } = await parseChatRequest(req);
+    const persona = resolvePersona(requestedPersona);
 
-    // Get the last user message
-    const lastMessage = messages[messages.length - 1];
-    if (!lastMessage || lastMessage.role !== 'user') {
-      return new Response('Invalid request', { status: 400 });
-    }
+    // History comes from the server-side conversation, so clients can't inject turns
+    const { conversation: stored } = await getOrCreateConversation(req);
+    const userMessage: ChatMessage = { id: messageId ?? generateId(), role: 'user', parts: [{ type: 'text', text: queryText }] };
+    const conversationMessages = [...stored.messages, userMessage];
 
-    // AI SDK 6.0 uses 'parts' array instead of 'content' string
-    // Extract text from parts, with fallbacks for legacy formats
-    let queryText = '';
-    if (lastMessage.content && typeof lastMessage.content === 'string') {
-      queryText = lastMessage.content;
-    } else if (lastMessage.parts && Array.isArray(lastMessage.parts)) {
-      const textParts = lastMessage.parts
-        .filter((part: { type?: string; text?: string }) => part.type === 'text' && part.text)
-        .map((part: { text: string }) => part.text);
-      queryText = textParts.join('');
-    } else if (lastMessage.text && typeof lastMessage.text === 'string') {
-      queryText = lastMessage.text;
-    }
+    // Send as much recent history as fits CONTEXT_HISTORY_TOKENS; older turns are
+    // folded into the conversation's rolling summary (saved with the reply)
+    const budget = getContextBudget();
+    const turns = conversationMessages
+      .map((message) => ({ id: message.id, role: message.role as ChatTurn['role'], content: extractText(message) }));
+    const historyWindow = selectHistory(turns, stored.summary?.text, stored.summary?.throughMessageId, budget);
+    const summary = await timeStage(timings, 'summary', () => updateSummary(stored.summary, historyWindow.overflow, budget.summaryTokens));
+    const conversation: Conversation = { ...stored, summary };
+    const transformedMessages = historyWindow.turns;
+
+    // Follow-ups ("what stack did that one use?") are rewritten into standalone queries using the history
+    const history = transformedMessages.slice(0, -1);
+    const isFollowUp = stored.messages.length > 0;
+    const { query: searchQuery, expansions } = await timeStage(timings, 'rewrite', () => rewriteQuery(queryText, history));
+
+    // The persona's model (if any) is tried first, then the CHAT_MODELS chain
+    const chatModel = getChatModel(persona.model);
+    const modelName = chatModel.id;
+    // Cached answers are only reused for the same model and persona (templates, variables, temperature)
+    const answerScope = JSON.stringify({ model: modelName, persona });
+
+    // Auto-initializes embeddings if missing, auto-updates if portfolio changed - before the
+    // answer cache lookup, since cached answers are versioned by the corpus hash
+    await timeStage(timings, 'index', () => ensureIndexFresh());
 
-    if (!queryText || queryText.trim().length === 0) {
-      return new Response(
-        JSON.stringify({
-          error: 'Invalid request',
-          message: 'Message content is required and cannot be empty',
-        }),
-        { status: 400, headers: { 'Content-Type': 'application/json' } }
-      );
+    // Repeated questions skip retrieval, reranking and generation. Without query rewriting
+    // a follow-up may only make sense with its history, so those aren't looked up
+    const cacheLookup: AnswerCacheLookup = isFollowUp && getQueryRewriteMode() === 'off'
+      ? { status: 'skipped', reason: 'follow-up without query rewriting' }
+      : await timeStage(timings, 'answerCache', () => lookupAnswer(searchQuery, answerScope));
+
+    const debugBase = {
+      query: { original: queryText, rewritten: searchQuery, expansions },
+      answerCache: {
+        status: cacheLookup.status,
+        similarity: cacheLookup.similarity,
+        cachedQuery: cacheLookup.answer?.query,
+        reason: cacheLookup.reason,
+      },
+      model: modelName,
+      persona: persona.name,
+      timings,
+    };
+
+    // The reply is appended to the conversation once the stream finished; the cookie's
+    // expiry slides with every message
+    const persistence = conversationPersistence(conversation, conversationMessages);
+    const headers = { 'Set-Cookie': conversationCookie(conversation.id), 'X-Answer-Cache': cacheLookup.status };
+
+    if (cacheLookup.status === 'hit' && cacheLookup.answer) {
+      timings.total = Date.now() - startedAt;
+      const debugInfo: ChatDebugInfo | null = debug ? { ...debugBase, retrieval: [] } : null;
+      return cachedAnswerResponse(cacheLookup.answer, debugInfo, persistence, headers);
     }
 
-    // Production security: Block requests from unauthorized domains (prevents quota theft)
-    if (process.env.NODE_ENV === 'production') {
-      const referer = req.headers.get('referer');
-      const allowedDomain = process.env.ALLOWED_DOMAIN || 'your-domain.vercel.app';
-      
-      if (!referer || !referer.includes(allowedDomain)) {
-        return new Response('Unauthorized', { status: 401 });
-      }
+    // Narrow retrieval by metadata when the question names a category/tech
+    // (e.g. "what projects used Redis" -> category=projects, tech contains Redis)
+    const filter = await timeStage(timings, 'filter', async () => deriveMetadataFilter(searchQuery, await getStoredDocuments()));
+    if (filter) {
+      console.log('Derived metadata filter:', JSON.stringify(filter));
     }
 
-    // RAG: Search for relevant portfolio context
-    // Auto-initializes embeddings if missing, auto-updates if portfolio changed
-    const similarDocs = await searchSimilarDocuments(queryText.trim(), 3);
-
-    // Build context from similar documents
-    const context = similarDocs
-      .map(({ document }) => document.content)
-      .join('\n\n');
-
-    // Build system message with RAG context
-    const systemMessage = context
-      ? `You are a helpful portfolio agent. Use the following context to answer questions about the portfolio. If the context doesn't contain relevant information, say so politely.
-
-Context:
-${context}
-
-Answer the user's questions based on this context. Be friendly, concise, and professional. Keep responses under 200 words.`
-      : 'You are a helpful portfolio agent. Answer questions about the portfolio in a friendly, concise, and professional manner. Keep responses under 200 words.';
-
-    // Keep last 6 messages to save tokens and maintain context
-    const recentMessages = messages.slice(-6).filter((msg: { role: string }) => msg.role !== 'system');
-
-    // Transform messages: AI SDK 6.0 uses 'parts' array, but streamText expects 'content' string
-    const transformedMessages = recentMessages.map((msg: {
-      role: string;
-      parts?: Array<{ type?: string; text?: string }>;
-      content?: string;
-      text?: string;
-    }) => {
-      // Extract text from parts array (AI SDK 6.0 format)
-      let content = '';
-      if (msg.parts && Array.isArray(msg.parts)) {
-        const textParts = msg.parts
-          .filter((part: { type?: string; text?: string }): part is { type: string; text: string } => 
-            part.type === 'text' && typeof part.text === 'string'
-          )
-          .map((part) => part.text);
-        content = textParts.join('');
-      } else if (msg.content && typeof msg.content === 'string') {
-        content = msg.content;
-      } else if (msg.text && typeof msg.text === 'string') {
-        content = msg.text;
-      }
+    const retrievalDebug: RetrievalDebug[] = [];
+    const retrieve = (options: RetrievalOptions) => retrieveContext(searchQuery, {
+      ...options,
+      expansions,
+      onRetrieval: debug ? (trace) => retrievalDebug.push(toRetrievalDebug(trace, options.filter ?? null)) : undefined,
+    });
+
+    // RAG: Retrieve candidates, rerank (optional), apply min score and pick diverse top chunks
+    const similarDocs = await timeStage(timings, 'retrieval', async () => {
+      const results = await retrieve({ filter });
+      // A derived filter is a guess - fall back to unfiltered search if it matched nothing
+      return filter && results.length === 0 ? retrieve({}) : results;
+    });
 
-      return {
-        role: msg.role,
-        content: content,
-      };
-    }).filter((msg: { content: string }) => msg.content.trim().length > 0);
-
-    if (transformedMessages.length === 0) {
-      console.error('No valid messages after transformation');
-      return new Response(
-        JSON.stringify({
-          error: 'Invalid request',
-          message: 'No valid messages found after processing',
-        }),
-        { status: 400, headers: { 'Content-Type': 'application/json' } }
-      );
+    // Build system message with RAG context from the persona's templates;
+    // chunks that don't fit the budget are dropped, lowest score first
+    const prompt = assembleContext(similarDocs, transformedMessages, createPromptRenderer(persona, summary?.text), budget);
+    if (prompt.droppedDocuments.length > 0 || prompt.truncatedDocument) {
+      console.log(`Context budget: dropped ${prompt.droppedDocuments.length} chunks${prompt.truncatedDocument ? ', truncated 1' : ''} (${prompt.tokens.total}/${budget.totalTokens} tokens)`);
     }
 
-    const modelName = process.env.GEMINI_MODEL || 'gemini-2.5-flash';
-    
+    const systemMessage = prompt.system;
+    const citations = toCitations(prompt.documents);
+
+    const debugInfo: ChatDebugInfo | null = debug
+      ? {
+          ...debugBase,
+          retrieval: retrievalDebug,
+          context: {
+            budget,
+            tokens: prompt.tokens,
+            historyTurns: transformedMessages.length,
+            truncatedTurn: historyWindow.truncated,
+            summarizedTurns: summary === stored.summary ? 0 : historyWindow.overflow.length,
+            summary: summary?.text,
+            droppedDocuments: prompt.droppedDocuments,
+            truncatedDocument: prompt.truncatedDocument,
+          },
+          systemPrompt: systemMessage,
+        }
+      : null;
+
+    // Only answers to a conversation's first question are cached - later ones may lean on history
+    const cacheKey = !isFollowUp ? cacheLookup.key : undefined;
+
     try {
       const result = await streamText({
-        model: google(modelName), // SDK auto-detects GOOGLE_GENERATIVE_AI_API_KEY from env
+        // API keys come from env (see lib/chat-models.ts)
+        // Retries/circuit breaking/fallback and quota budgets are per chain entry, so no SDK retries on top
+        model: chatModel.model,
         system: systemMessage,
         messages: transformedMessages,
-        temperature: 0.7,
+        temperature: persona.temperature,
+        maxRetries: 0,
+        onFinish: async ({ text, finishReason }) => {
+          // Truncated or filtered answers aren't worth repeating
+          if (cacheKey && finishReason === 'stop') {
+            await storeAnswer(cacheKey, text, citations);
+          }
+        },
       });
 
-      // CRITICAL FIX: Must use toUIMessageStreamResponse() for useChat compatibility
+      // CRITICAL FIX: Must respond with a UI message stream for useChat compatibility
       // toTextStreamResponse() doesn't work - messages won't appear in UI
-      // This was the root cause of messages not showing up
-      return result.toUIMessageStreamResponse();
+      // Citations (and the debug trace) follow the `start` chunk, the same order as a cached
+      // answer, so the client can render chips as soon as the answer starts
+      const stream = createUIMessageStream<ChatMessage>({
+        ...persistence,
+        execute: async ({ writer }) => {
+          const generationStartedAt = Date.now();
+          // Debug holds back the finish chunk so the trace can be updated with generation timings first
+          for await (const chunk of result.toUIMessageStream<ChatMessage>({ sendFinish: !debugInfo })) {
+            if (chunk.type === 'text-delta' && timings.firstToken === undefined) {
+              timings.firstToken = Date.now() - generationStartedAt;
+            }
+            writer.write(chunk);
+            if (chunk.type === 'start') {
+              writer.write({ type: 'data-citations', data: citations });
+              if (debugInfo) {
+                writer.write({ type: 'data-debug', id: 'debug', data: debugInfo });
+              }
+            }
+          }
+          if (!debugInfo) return;
+
+          timings.generation = Date.now() - generationStartedAt;
+          timings.total = Date.now() - startedAt;
+          // The model that actually answered (a fallback if earlier ones failed)
+          const model = chatModel.answeredBy ? modelEntryId(chatModel.answeredBy) : modelName;
+          // Same id as the first trace, so the client always sees the final version
+          writer.write({ type: 'data-debug', id: 'debug', data: { ...debugInfo, model, timings: { ...timings } } });
+          writer.write({ type: 'finish', finishReason: await result.finishReason });
+        },
+      });
+
+      return createUIMessageStreamResponse({ stream, headers });
     } catch (streamError) {
       console.error('streamText error:', streamError);
       throw streamError;
@@ -171,45 +255,51 @@ Answer the user's questions based on this context. Be friendly, concise, and pro
   } catch (error) {
     console.error('Chat API error:', error);
 
-    // Handle rate limit errors
-    if (error instanceof RateLimitError) {
-      return new Response(
-        JSON.stringify({
-          error: 'Rate limit exceeded',
-          message: error.message,
-          retryAfter: error.retryAfter,
-        }),
-        {
-          status: 429,
-          headers: {
-            'Content-Type': 'application/json',
-            'Retry-After': String(error.retryAfter),
-          },
-        }
-      );
-    }
+    // Status and body come from the error type (rate limit 429, quota/circuit 503, ...)
+    return errorResponse(error);
+  }
+}
 
-    // Handle quota exceeded
-    if (error instanceof Error && error.message.includes('quota')) {
-      return new Response(
-        JSON.stringify({
-          error: 'Service unavailable',
-          message: 'API quota exceeded. Please try again later.',
-        }),
-        {
-          status: 503,
-          headers: { 'Content-Type': 'application/json' },
-        }
-      );
-    }
+/**
+ * createUIMessageStream options that save the finished exchange to the conversation
+ */
+function conversationPersistence(conversation: Conversation, messages: ChatMessage[]) {
+  return {
+    originalMessages: messages,
+    onFinish: async ({ messages: updated }: { messages: ChatMessage[] }) => {
+      try {
+        await saveConversation(conversation, updated);
+      } catch (error) {
+        // The answer was delivered - losing it from history isn't worth failing the stream
+        console.error('Failed to save conversation:', error);
+      }
+    },
+  };
+}
 
-    // Generic error
-    return new Response(
-      JSON.stringify({
-        error: 'Failed to generate response',
-        message: error instanceof Error ? error.message : 'Unknown error',
-      }),
-      { status: 500, headers: { 'Content-Type': 'application/json' } }
-    );
-  }
+/**
+ * Replay a cached answer in the same UI message stream format as a generated one
+ */
+function cachedAnswerResponse(
+  cached: CachedAnswer,
+  debugInfo: ChatDebugInfo | null,
+  persistence: ReturnType<typeof conversationPersistence>,
+  headers: Record<string, string>
+): Response {
+  const stream = createUIMessageStream<ChatMessage>({
+    ...persistence,
+    execute: ({ writer }) => {
+      writer.write({ type: 'start' });
+      writer.write({ type: 'data-citations', data: cached.citations });
+      if (debugInfo) {
+        writer.write({ type: 'data-debug', id: 'debug', data: debugInfo });
+      }
+      writer.write({ type: 'text-start', id: 'cached-answer' });
+      writer.write({ type: 'text-delta', id: 'cached-answer', delta: cached.answer });
+      writer.write({ type: 'text-end', id: 'cached-answer' });
+      writer.write({ type: 'finish', finishReason: 'stop' });
+    },
+  });
+
+  return createUIMessageStreamResponse({ stream, headers });
 }
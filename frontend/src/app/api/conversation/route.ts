@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import { assertOriginAllowed } from '@/lib/access-control';
+import { conversationCookie, deleteConversation, getConversationId, loadConversation } from '@/lib/conversations';
+import { errorResponse } from '@/lib/errors';
+
+export const runtime = 'edge';
+
+/**
+ * The browser's conversation (identified by the `conversation_id` cookie)
+ *
+ * GET - `{ id, messages }` to restore the chat after a reload; empty when there is none
+ * DELETE - forget the conversation and clear the cookie ("new conversation")
+ *
+ * POST /api/chat creates the conversation and sets the cookie. See lib/conversations.ts.
+ */
+export async function GET(req: Request) {
+  try {
+    assertOriginAllowed(req);
+    const id = getConversationId(req);
+    const conversation = id ? await loadConversation(id) : null;
+
+    return NextResponse.json(
+      { id: conversation?.id ?? null, messages: conversation?.messages ?? [] },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function DELETE(req: Request) {
+  try {
+    assertOriginAllowed(req);
+    const id = getConversationId(req);
+    if (id) {
+      await deleteConversation(id);
+    }
+
+    return new NextResponse(null, { status: 204, headers: { 'Set-Cookie': conversationCookie(null) } });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -1,23 +1,35 @@
 import { NextResponse } from 'next/server';
-import { initializePortfolioData, areEmbeddingsInitialized, needsReembedding } from '@/lib/vector-store';
+import { errorResponse } from '@/lib/errors';
+import { assertAccess } from '@/lib/access-control';
+import { isAdminRequest } from '@/lib/admin';
+import { initializePortfolioData, areEmbeddingsInitialized, needsReembedding, getReembeddingDiff } from '@/lib/vector-store';
 
-// Edge Runtime for better performance
-export const runtime = 'edge';
+// Node.js runtime: ingestion reads the content/ directory from disk
+export const runtime = 'nodejs';
 
 /**
  * API route to initialize portfolio embeddings
  * 
  * ONE-TIME operation. Embeddings persist in Redis and don't need to be
- * re-initialized unless I update portfolio data.
+ * re-initialized unless I update portfolio content.
  * 
- * App auto-initializes on first use if embeddings don't exist.
- * App auto-updates embeddings when portfolio.ts changes (version hashing).
+ * Loads documents from content/ (Markdown, text, JSON) and saves them with the
+ * embeddings, so the Edge chat route can search without filesystem access.
+ * App auto-updates embeddings when content changes (per-document hashing):
+ * only added/changed documents are re-embedded, removed ones are deleted.
+ *
+ * POST is protected like /api/chat (allowed origin + session token), since
+ * re-embedding spends embedding quota. The admin token is accepted too.
  */
-export async function POST() {
+export async function POST(req: Request) {
   try {
+    if (!(await isAdminRequest(req))) {
+      await assertAccess(req);
+    }
+
     // Check if already initialized and up-to-date
     const alreadyInitialized = await areEmbeddingsInitialized();
-    const needsUpdate = await needsReembedding();
+    const needsUpdate = await needsReembedding({ force: true });
     
     if (alreadyInitialized && !needsUpdate) {
       return NextResponse.json({
@@ -32,26 +44,21 @@ export async function POST() {
       console.log('Portfolio content changed. Re-embedding...');
     }
 
-    // Initialize embeddings from portfolio.ts
-    await initializePortfolioData();
+    // Initialize embeddings from the content directory
+    const changes = await initializePortfolioData();
 
     return NextResponse.json({
       success: true,
-      message: needsUpdate 
+      message: alreadyInitialized 
         ? 'Portfolio embeddings updated successfully. They will persist in Redis.'
         : 'Portfolio embeddings initialized successfully. They will persist in Redis.',
       alreadyInitialized: alreadyInitialized,
       needsUpdate: needsUpdate,
+      changes,
     });
   } catch (error) {
     console.error('Initialization error:', error);
-    return NextResponse.json(
-      {
-        success: false,
-        error: error instanceof Error ? error.message : 'Failed to initialize portfolio embeddings',
-      },
-      { status: 500 }
-    );
+    return errorResponse(error);
   }
 }
 
@@ -61,11 +68,13 @@ export async function POST() {
 export async function GET() {
   try {
     const isInitialized = await areEmbeddingsInitialized();
-    const needsUpdate = await needsReembedding();
+    const needsUpdate = await needsReembedding({ force: true });
+    const pendingChanges = await getReembeddingDiff();
     
     return NextResponse.json({
       initialized: isInitialized,
       needsUpdate: needsUpdate,
+      pendingChanges,
       message: !isInitialized
         ? 'Embeddings not initialized. Call POST /api/initialize to set them up.'
         : needsUpdate
@@ -73,13 +82,7 @@ export async function GET() {
         : 'Embeddings are initialized and up-to-date.',
     });
   } catch (error) {
-    return NextResponse.json(
-      {
-        initialized: false,
-        needsUpdate: true,
-        error: error instanceof Error ? error.message : 'Failed to check status',
-      },
-      { status: 500 }
-    );
+    console.error('Initialization status error:', error);
+    return errorResponse(error);
   }
 }
@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server';
+import {
+  assertOriginAllowed,
+  createChallenge,
+  getAccessControlConfig,
+  issueSessionToken,
+  redeemChallenge,
+} from '@/lib/access-control';
+import { BadRequestError, errorResponse } from '@/lib/errors';
+
+export const runtime = 'edge';
+
+/**
+ * Session tokens for the chat page
+ *
+ * GET - whether tokens are required, plus a proof-of-work challenge when enabled
+ * POST - issue a token; body `{ challenge, solution }` when proof of work is on
+ *
+ * Only allowed origins can get a token. See lib/access-control.ts.
+ */
+export async function GET(req: Request) {
+  try {
+    assertOriginAllowed(req);
+    const config = getAccessControlConfig();
+
+    if (!config.tokenSecret) {
+      return NextResponse.json({ required: false });
+    }
+    if (config.powDifficulty === 0) {
+      return NextResponse.json({ required: true, difficulty: 0 });
+    }
+    return NextResponse.json({ required: true, ...(await createChallenge(config)) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    const origin = assertOriginAllowed(req);
+    const config = getAccessControlConfig();
+
+    if (config.powDifficulty > 0) {
+      const body = await req.json().catch(() => null);
+      if (typeof body?.challenge !== 'string' || typeof body?.solution !== 'string') {
+        throw new BadRequestError('A solved challenge is required', [
+          { path: 'challenge', message: 'must be the challenge from GET /api/session' },
+          { path: 'solution', message: 'must be a string' },
+        ]);
+      }
+      await redeemChallenge(body.challenge, body.solution, config);
+    }
+
+    return NextResponse.json(await issueSessionToken(origin, config));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
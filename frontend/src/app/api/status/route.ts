@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { getStorageUsage } from '@/lib/vector-store';
+import { getQuotaUsage } from '@/lib/quota';
+import { errorResponse } from '@/lib/errors';
+
+export const runtime = 'edge';
+
+/**
+ * Usage status
+ *
+ * Shared upstream quota ledger (embedding/generation requests and tokens for
+ * the current UTC minute and day, with their budgets) and vector storage usage.
+ * Counts only - no content or per-visitor data.
+ */
+export async function GET() {
+  try {
+    const [quota, storage] = await Promise.all([getQuotaUsage(), getStorageUsage()]);
+
+    return NextResponse.json({
+      quota,
+      storage,
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    console.error('Status error:', error);
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,216 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { adminApi, ADMIN_TOKEN_KEY, type AdminSearchResponse, type AdminStats, type DocumentList as DocumentListData } from '@/lib/admin-client';
+import { AppError } from '@/lib/errors';
+import type { Document, ReembeddingReport } from '@/lib/vector-store';
+import type { SearchMode } from '@/lib/hybrid-search';
+import DocumentList from './DocumentList';
+import DocumentEditor from './DocumentEditor';
+import SearchPanel from './SearchPanel';
+import StatsPanel from './StatsPanel';
+
+type Notice = { kind: 'info' | 'error'; text: string };
+
+// undefined = editor closed, null = new document
+type Editing = Document | null | undefined;
+
+function describeReport(report: ReembeddingReport | null): string {
+  if (!report) return 'nothing to re-embed';
+  const parts = [
+    report.added.length && `${report.added.length} added`,
+    report.updated.length && `${report.updated.length} updated`,
+    report.removed.length && `${report.removed.length} removed`,
+  ].filter(Boolean);
+  return `${parts.join(', ') || 'no changes'} (${report.chunksEmbedded} chunks embedded, ${report.chunksDeleted} deleted)`;
+}
+
+/**
+ * /admin - manage the corpus, test retrieval and watch quota/storage
+ * Every call goes through the bearer-protected admin API; the page itself holds no data
+ */
+export default function AdminDashboard() {
+  const [token, setToken] = useState<string | null>(null);
+  const [tokenInput, setTokenInput] = useState('');
+  const [documents, setDocuments] = useState<DocumentListData | null>(null);
+  const [stats, setStats] = useState<AdminStats | null>(null);
+  const [editing, setEditing] = useState<Editing>(undefined);
+  const [busy, setBusy] = useState(false);
+  const [notice, setNotice] = useState<Notice | null>(null);
+
+  const logout = useCallback((reason?: string) => {
+    sessionStorage.removeItem(ADMIN_TOKEN_KEY);
+    setToken(null);
+    setDocuments(null);
+    setStats(null);
+    setEditing(undefined);
+    setNotice(reason ? { kind: 'error', text: reason } : null);
+  }, []);
+
+  const handleError = useCallback((error: unknown) => {
+    if (error instanceof AppError && (error.code === 'unauthorized' || error.code === 'forbidden')) {
+      logout(error.message);
+      return;
+    }
+    setNotice({ kind: 'error', text: error instanceof Error ? error.message : String(error) });
+  }, [logout]);
+
+  // Runs an admin call with the shared busy flag and error handling
+  const run = useCallback(async <T,>(action: (token: string) => Promise<T>): Promise<T | null> => {
+    if (!token) return null;
+    setBusy(true);
+    try {
+      return await action(token);
+    } catch (error) {
+      handleError(error);
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  }, [token, handleError]);
+
+  const refresh = useCallback(async () => {
+    if (!token) return;
+    try {
+      const [documentList, usage] = await Promise.all([adminApi.listDocuments(token), adminApi.stats(token)]);
+      setDocuments(documentList);
+      setStats(usage);
+    } catch (error) {
+      handleError(error);
+    }
+  }, [token, handleError]);
+
+  useEffect(() => {
+    const stored = sessionStorage.getItem(ADMIN_TOKEN_KEY);
+    if (stored) setToken(stored);
+  }, []);
+
+  useEffect(() => {
+    if (token) void refresh();
+  }, [token, refresh]);
+
+  const handleLogin = (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = tokenInput.trim();
+    if (!value) return;
+    sessionStorage.setItem(ADMIN_TOKEN_KEY, value);
+    setTokenInput('');
+    setNotice(null);
+    setToken(value);
+  };
+
+  const handleSelect = async (id: string) => {
+    const result = await run((t) => adminApi.getDocument(t, id));
+    if (result) setEditing(result.document);
+  };
+
+  const handleSave = async (document: Document) => {
+    const isNew = editing === null;
+    const change = await run((t) => isNew
+      ? adminApi.addDocument(t, document)
+      : adminApi.updateDocument(t, document.id, { content: document.content, metadata: document.metadata }));
+    if (!change) return;
+
+    setNotice(change.embeddingError
+      ? { kind: 'error', text: `Saved "${document.id}" but embedding failed: ${change.embeddingError}` }
+      : { kind: 'info', text: `Saved "${document.id}": ${describeReport(change.report)}` });
+    setEditing(undefined);
+    await refresh();
+  };
+
+  const handleDelete = async (id: string) => {
+    const change = await run((t) => adminApi.deleteDocument(t, id));
+    if (!change) return;
+
+    setNotice(change.embeddingError
+      ? { kind: 'error', text: `Deleted "${id}" but removing its embeddings failed: ${change.embeddingError}` }
+      : { kind: 'info', text: `Deleted "${id}": ${describeReport(change.report)}` });
+    setEditing(undefined);
+    await refresh();
+  };
+
+  const handleReembed = async (ids?: string[]) => {
+    const label = ids ? `"${ids.join('", "')}"` : 'every document';
+    if (!window.confirm(`Re-embed ${label}? This spends embedding quota even if nothing changed.`)) return;
+
+    const result = await run((t) => adminApi.reembed(t, ids));
+    if (!result) return;
+    setNotice({ kind: 'info', text: `Re-embedded ${label}: ${describeReport(result.report)}` });
+    await refresh();
+  };
+
+  const handlePurgeCache = async () => {
+    const result = await run((t) => adminApi.purgeCache(t));
+    if (result) setNotice({ kind: 'info', text: `Purged ${result.purged} cached queries` });
+  };
+
+  const handleSearch = (query: string, mode: SearchMode, limit: number): Promise<AdminSearchResponse | null> =>
+    run((t) => adminApi.search(t, query, mode, limit));
+
+  if (!token) {
+    return (
+      <div className="flex min-h-screen items-center justify-center p-4">
+        <form onSubmit={handleLogin} className="w-full max-w-sm bg-[#1a1a2e] border border-gray-700 rounded-lg p-6 space-y-4">
+          <h1 className="text-xl font-bold text-white">Admin</h1>
+          {notice && <p className="text-sm text-red-300">{notice.text}</p>}
+          <input
+            type="password"
+            value={tokenInput}
+            onChange={(e) => setTokenInput(e.target.value)}
+            placeholder="ADMIN_TOKEN"
+            autoComplete="current-password"
+            className="w-full px-3 py-2 bg-[#2d2d44] text-white rounded border border-gray-600 focus:outline-none focus:border-blue-500"
+          />
+          <button type="submit" disabled={!tokenInput.trim()} className="w-full px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50">
+            Sign in
+          </button>
+        </form>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto p-4 space-y-4">
+      <header className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold text-white">Admin</h1>
+        <div className="flex items-center gap-3">
+          {busy && <span className="text-xs text-gray-400">Working…</span>}
+          <button type="button" onClick={() => logout()} className="text-sm text-gray-400 hover:text-white">Sign out</button>
+        </div>
+      </header>
+
+      {notice && (
+        <div className={`flex justify-between gap-2 p-3 text-sm rounded border ${notice.kind === 'error' ? 'bg-red-900/30 border-red-700 text-red-200' : 'bg-blue-900/30 border-blue-700 text-blue-200'}`}>
+          <span>{notice.text}</span>
+          <button type="button" onClick={() => setNotice(null)} className="text-xs opacity-70 hover:opacity-100">Dismiss</button>
+        </div>
+      )}
+
+      <StatsPanel stats={stats} onRefresh={() => void refresh()} />
+
+      <div className="grid gap-4 lg:grid-cols-2">
+        <DocumentList
+          data={documents}
+          selectedId={editing?.id ?? null}
+          busy={busy}
+          onSelect={(id) => void handleSelect(id)}
+          onNew={() => setEditing(null)}
+          onReembed={(ids) => void handleReembed(ids)}
+          onPurgeCache={() => void handlePurgeCache()}
+        />
+        {editing !== undefined && (
+          <DocumentEditor
+            key={editing?.id ?? 'new'}
+            document={editing}
+            busy={busy}
+            onSave={(document) => void handleSave(document)}
+            onDelete={(id) => void handleDelete(id)}
+            onClose={() => setEditing(undefined)}
+          />
+        )}
+      </div>
+
+      <SearchPanel busy={busy} onSearch={handleSearch} />
+    </div>
+  );
+}
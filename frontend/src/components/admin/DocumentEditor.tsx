@@ -0,0 +1,91 @@
+'use client';
+
+import React, { useState } from 'react';
+import type { Document } from '@/lib/vector-store';
+
+interface DocumentEditorProps {
+  /** null = new document */
+  document: Document | null;
+  busy: boolean;
+  onSave: (document: Document) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * Edit a document's content and metadata (JSON); saving re-embeds it
+ * Remount with a `key` per document so the form resets
+ */
+export default function DocumentEditor({ document, busy, onSave, onDelete, onClose }: DocumentEditorProps) {
+  const isNew = document === null;
+  const [id, setId] = useState(document?.id ?? '');
+  const [content, setContent] = useState(document?.content ?? '');
+  const [metadata, setMetadata] = useState(JSON.stringify(document?.metadata ?? {}, null, 2));
+  const [metadataError, setMetadataError] = useState<string | null>(null);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(metadata || '{}');
+    } catch {
+      setMetadataError('Metadata must be valid JSON');
+      return;
+    }
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+      setMetadataError('Metadata must be a JSON object');
+      return;
+    }
+    setMetadataError(null);
+    onSave({ id: id.trim(), content, metadata: parsed as Record<string, unknown> });
+  };
+
+  const inputClass = 'w-full px-3 py-2 bg-[#2d2d44] text-white text-sm rounded border border-gray-600 focus:outline-none focus:border-blue-500';
+
+  return (
+    <section className="bg-[#1a1a2e] border border-gray-700 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-white font-semibold">{isNew ? 'New document' : `Edit ${document.id}`}</h2>
+        <button type="button" onClick={onClose} className="text-xs text-gray-400 hover:text-white">Close</button>
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-3">
+        {isNew && (
+          <label className="block text-xs text-gray-400">
+            Id
+            <input value={id} onChange={(e) => setId(e.target.value)} className={`${inputClass} mt-1 font-mono`} placeholder="projects/my-project" required />
+          </label>
+        )}
+        <label className="block text-xs text-gray-400">
+          Content
+          <textarea value={content} onChange={(e) => setContent(e.target.value)} className={`${inputClass} mt-1 h-56 font-mono`} required />
+        </label>
+        <label className="block text-xs text-gray-400">
+          Metadata (JSON)
+          <textarea value={metadata} onChange={(e) => setMetadata(e.target.value)} className={`${inputClass} mt-1 h-28 font-mono`} />
+        </label>
+        {metadataError && <p className="text-xs text-red-300">{metadataError}</p>}
+
+        <div className="flex justify-between">
+          <button
+            type="submit"
+            disabled={busy || !content.trim() || (isNew && !id.trim())}
+            className="px-4 py-2 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isNew ? 'Add and embed' : 'Save and re-embed'}
+          </button>
+          {!isNew && (
+            <button
+              type="button"
+              disabled={busy}
+              onClick={() => window.confirm(`Delete "${document.id}" and its embeddings?`) && onDelete(document.id)}
+              className="px-4 py-2 text-sm text-red-300 border border-red-700 rounded hover:bg-red-900/30 disabled:opacity-50"
+            >
+              Delete
+            </button>
+          )}
+        </div>
+      </form>
+    </section>
+  );
+}
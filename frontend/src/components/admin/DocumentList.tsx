@@ -0,0 +1,103 @@
+'use client';
+
+import React from 'react';
+import type { DocumentList as DocumentListData } from '@/lib/admin-client';
+import type { DocumentStatus } from '@/lib/vector-store';
+
+interface DocumentListProps {
+  data: DocumentListData | null;
+  selectedId: string | null;
+  busy: boolean;
+  onSelect: (id: string) => void;
+  onNew: () => void;
+  onReembed: (ids?: string[]) => void;
+  onPurgeCache: () => void;
+}
+
+const STATUS_STYLES: Record<DocumentStatus['status'], string> = {
+  current: 'bg-green-900/40 text-green-300 border-green-700',
+  stale: 'bg-yellow-900/40 text-yellow-300 border-yellow-700',
+  missing: 'bg-red-900/40 text-red-300 border-red-700',
+};
+
+function metadataSummary(metadata: Record<string, unknown> | undefined): string {
+  if (!metadata) return '';
+  return Object.entries(metadata)
+    .filter(([key]) => key !== 'source')
+    .map(([key, value]) => `${key}: ${Array.isArray(value) ? value.join(', ') : String(value)}`)
+    .join(' · ');
+}
+
+/**
+ * Every document with its embedding status
+ * "current" = embedded with the current content/model/chunking, "stale" = changed since
+ */
+export default function DocumentList({ data, selectedId, busy, onSelect, onNew, onReembed, onPurgeCache }: DocumentListProps) {
+  const buttonClass = 'px-3 py-1 text-xs rounded border border-gray-600 text-gray-300 hover:border-blue-500 hover:text-white disabled:opacity-50';
+
+  return (
+    <section className="bg-[#1a1a2e] border border-gray-700 rounded-lg p-4">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <h2 className="text-white font-semibold">
+          Documents {data && <span className="text-gray-500 font-normal">({data.documents.length})</span>}
+        </h2>
+        <div className="flex gap-2">
+          <button type="button" onClick={onNew} className={buttonClass} disabled={busy}>New document</button>
+          <button type="button" onClick={() => onReembed()} className={buttonClass} disabled={busy}>Re-embed all</button>
+          <button type="button" onClick={onPurgeCache} className={buttonClass} disabled={busy}>Purge query cache</button>
+        </div>
+      </div>
+
+      {data && data.removed.length > 0 && (
+        <p className="mb-2 text-xs text-yellow-300">
+          Still embedded but no longer in the corpus (deleted on the next re-embed): {data.removed.join(', ')}
+        </p>
+      )}
+
+      {!data ? (
+        <p className="text-sm text-gray-400">Loading…</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500 border-b border-gray-700">
+                <th className="py-1 pr-2">Id</th>
+                <th className="py-1 pr-2">Metadata</th>
+                <th className="py-1 pr-2">Status</th>
+                <th className="py-1 pr-2">Chunks</th>
+                <th className="py-1 pr-2">Hash</th>
+                <th className="py-1" />
+              </tr>
+            </thead>
+            <tbody>
+              {data.documents.map((doc) => (
+                <tr
+                  key={doc.id}
+                  className={`border-b border-gray-800 ${doc.id === selectedId ? 'bg-[#2d2d44]' : 'hover:bg-[#2d2d44]/50'}`}
+                >
+                  <td className="py-1 pr-2 font-mono text-gray-200">
+                    <button type="button" onClick={() => onSelect(doc.id)} className="hover:text-blue-400 text-left">
+                      {doc.id}
+                    </button>
+                    {doc.source === 'admin' && <span className="ml-1 text-xs text-blue-400">admin</span>}
+                  </td>
+                  <td className="py-1 pr-2 text-xs text-gray-400">{metadataSummary(doc.metadata)}</td>
+                  <td className="py-1 pr-2">
+                    <span className={`px-1.5 py-0.5 text-xs rounded border ${STATUS_STYLES[doc.status]}`}>{doc.status}</span>
+                  </td>
+                  <td className="py-1 pr-2 font-mono text-xs text-gray-400">{doc.chunksEmbedded}/{doc.chunks}</td>
+                  <td className="py-1 pr-2 font-mono text-xs text-gray-500" title={doc.hash}>{doc.hash.slice(0, 10)}</td>
+                  <td className="py-1 text-right">
+                    <button type="button" onClick={() => onReembed([doc.id])} className="text-xs text-blue-400 hover:text-blue-300 disabled:opacity-50" disabled={busy}>
+                      Re-embed
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,68 @@
+'use client';
+
+import React, { useState } from 'react';
+import type { AdminSearchResponse } from '@/lib/admin-client';
+import type { SearchMode } from '@/lib/hybrid-search';
+
+interface SearchPanelProps {
+  busy: boolean;
+  onSearch: (query: string, mode: SearchMode, limit: number) => Promise<AdminSearchResponse | null>;
+}
+
+function formatScore(score: number | undefined): string {
+  return score === undefined ? '–' : score.toFixed(3);
+}
+
+/**
+ * Ad-hoc retrieval: the raw `searchSimilarDocuments` ranking with per-retriever scores
+ */
+export default function SearchPanel({ busy, onSearch }: SearchPanelProps) {
+  const [query, setQuery] = useState('');
+  const [mode, setMode] = useState<SearchMode>('hybrid');
+  const [limit, setLimit] = useState(10);
+  const [response, setResponse] = useState<AdminSearchResponse | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!query.trim()) return;
+    setResponse(await onSearch(query, mode, limit));
+  };
+
+  const inputClass = 'px-3 py-2 bg-[#2d2d44] text-white text-sm rounded border border-gray-600 focus:outline-none focus:border-blue-500';
+
+  return (
+    <section className="bg-[#1a1a2e] border border-gray-700 rounded-lg p-4">
+      <h2 className="text-white font-semibold mb-3">Retrieval test</h2>
+
+      <form onSubmit={handleSubmit} className="flex flex-wrap gap-2">
+        <input value={query} onChange={(e) => setQuery(e.target.value)} placeholder="What projects used Redis?" className={`${inputClass} flex-1 min-w-48`} />
+        <select value={mode} onChange={(e) => setMode(e.target.value as SearchMode)} className={inputClass}>
+          <option value="hybrid">hybrid</option>
+          <option value="vector">vector</option>
+          <option value="lexical">lexical</option>
+        </select>
+        <input type="number" min={1} max={50} value={limit} onChange={(e) => setLimit(Number(e.target.value))} className={`${inputClass} w-20`} />
+        <button type="submit" disabled={busy || !query.trim()} className="px-4 py-2 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50">
+          Search
+        </button>
+      </form>
+
+      {response && (
+        <div className="mt-3 space-y-2">
+          <p className="text-xs text-gray-500">{response.results.length} results in {response.tookMs}ms</p>
+          {response.results.map((result, i) => (
+            <div key={result.chunkId} className="p-2 bg-[#2d2d44] border border-gray-700 rounded text-xs">
+              <div className="flex flex-wrap justify-between gap-2 font-mono">
+                <span className="text-gray-200">#{i + 1} {result.chunkId}</span>
+                <span className="text-gray-400">
+                  score {formatScore(result.score)} · vector {formatScore(result.scores.vector)} · lexical {formatScore(result.scores.lexical)}
+                </span>
+              </div>
+              <p className="mt-1 text-gray-300 line-clamp-3">{result.document.content}</p>
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,93 @@
+'use client';
+
+import React from 'react';
+import type { AdminStats } from '@/lib/admin-client';
+import type { QuotaKind, QuotaWindowUsage } from '@/lib/quota';
+
+interface StatsPanelProps {
+  stats: AdminStats | null;
+  onRefresh: () => void;
+}
+
+function UsageBar({ label, used, limit }: { label: string; used: number; limit: number }) {
+  const percent = limit > 0 ? Math.min(100, (used / limit) * 100) : 0;
+  return (
+    <div className="text-xs">
+      <div className="flex justify-between text-gray-400">
+        <span>{label}</span>
+        <span className="font-mono">{used.toLocaleString()} / {limit > 0 ? limit.toLocaleString() : '∞'}</span>
+      </div>
+      <div className="h-1.5 mt-0.5 bg-[#2d2d44] rounded">
+        <div
+          className={`h-1.5 rounded ${percent >= 90 ? 'bg-red-500' : percent >= 70 ? 'bg-yellow-500' : 'bg-blue-500'}`}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+    </div>
+  );
+}
+
+const QUOTA_TITLES: Record<QuotaKind, string> = {
+  embedding: 'Embedding',
+  generation: 'Gemini generation',
+  'openai-generation': 'OpenAI generation',
+};
+
+function QuotaWindow({ title, usage }: { title: string; usage: QuotaWindowUsage }) {
+  return (
+    <div className="space-y-1">
+      <p className="text-xs text-gray-500">{title} · resets {new Date(usage.resetAt).toLocaleTimeString()}</p>
+      <UsageBar label="requests" used={usage.requests} limit={usage.requestLimit} />
+      {(usage.tokenLimit > 0 || usage.tokens > 0) && (
+        <UsageBar label="tokens" used={usage.tokens} limit={usage.tokenLimit} />
+      )}
+    </div>
+  );
+}
+
+/**
+ * Shared quota usage, rate limit configuration and storage usage
+ */
+export default function StatsPanel({ stats, onRefresh }: StatsPanelProps) {
+  return (
+    <section className="bg-[#1a1a2e] border border-gray-700 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-white font-semibold">Usage</h2>
+        <button type="button" onClick={onRefresh} className="text-xs text-blue-400 hover:text-blue-300">
+          Refresh
+        </button>
+      </div>
+
+      {!stats ? (
+        <p className="text-sm text-gray-400">Loading…</p>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-5">
+          {(Object.keys(QUOTA_TITLES) as QuotaKind[]).map((kind) => (
+            <div key={kind} className="space-y-2">
+              <h3 className="text-sm text-gray-300">{QUOTA_TITLES[kind]} quota</h3>
+              <QuotaWindow title="This minute" usage={stats.quota[kind].minute} />
+              <QuotaWindow title="Today (UTC)" usage={stats.quota[kind].day} />
+            </div>
+          ))}
+
+          <div className="space-y-1 text-xs text-gray-400">
+            <h3 className="text-sm text-gray-300">Rate limit (per IP)</h3>
+            {stats.rateLimit.tiers.map((tier) => (
+              <p key={tier.name} className="font-mono">
+                {tier.name}: {tier.limit} / {tier.windowSeconds}s
+              </p>
+            ))}
+            <p>{stats.rateLimit.algorithm}, fails {stats.rateLimit.failMode}</p>
+          </div>
+
+          <div className="space-y-1 text-xs text-gray-400">
+            <h3 className="text-sm text-gray-300">Storage</h3>
+            <p className="font-mono">{stats.storage.documentCount} chunks embedded</p>
+            <p className="font-mono">~{stats.storage.estimatedSizeKB.toLocaleString()} KB</p>
+            <p>as of {new Date(stats.timestamp).toLocaleTimeString()}</p>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -1,11 +1,36 @@
 'use client';
 
-import React, { useRef, useEffect, useState } from 'react';
+import React, { useRef, useEffect, useState, useSyncExternalStore } from 'react';
 import Image from 'next/image';
 import PixelBubble from './PixelBubble';
 import LoadingEllipsis from './LoadingEllipsis';
+import DebugPanel from './DebugPanel';
 import { useChat } from '@ai-sdk/react';
-import { isTextUIPart, DefaultChatTransport } from 'ai';
+import { DefaultChatTransport } from 'ai';
+import type { ChatMessage } from '@/lib/citations';
+import { extractText } from '@/lib/chat-request';
+import { clearSessionToken, getSessionHeaders } from '@/lib/session-client';
+import { parseErrorBody, type ErrorCode } from '@/lib/errors';
+import { ADMIN_TOKEN_KEY } from '@/lib/admin-client';
+import { fetchConversation, resetConversation } from '@/lib/conversation-client';
+
+// Extra guidance shown under the error message, keyed by the API's error code
+const ERROR_HINTS: Partial<Record<ErrorCode, string>> = {
+  rate_limited: 'Please wait a moment before sending another message.',
+  quota_exhausted: 'The assistant has used up its budget for now. Please come back later.',
+  free_tier_disabled: 'The assistant is temporarily unavailable. Please come back later.',
+  upstream_unavailable: 'The AI service is having trouble. Please try again shortly.',
+  unauthorized: 'Your session expired. Please send your message again.',
+};
+
+function subscribeToStorage(onChange: () => void) {
+  window.addEventListener('storage', onChange);
+  return () => window.removeEventListener('storage', onChange);
+}
+
+function readAdminToken() {
+  return sessionStorage.getItem(ADMIN_TOKEN_KEY);
+}
 
 /**
  * Main chat interface component
@@ -18,18 +43,61 @@ import { isTextUIPart, DefaultChatTransport } from 'ai';
  */
 export default function ChatInterface() {
   const [input, setInput] = useState('');
+  // Debug mode is offered when signed in to /admin in this tab (the API checks the token)
+  const adminToken = useSyncExternalStore(subscribeToStorage, readAdminToken, () => null);
+  const [debugEnabled, setDebugEnabled] = useState(false);
+  const [restoring, setRestoring] = useState(true);
 
-  const { messages, sendMessage, status, error } = useChat({
-    transport: new DefaultChatTransport({ api: '/api/chat' }),
+  const { messages, setMessages, sendMessage, status, error, clearError } = useChat<ChatMessage>({
+    transport: new DefaultChatTransport({
+      api: '/api/chat',
+      // Session token (and proof of work, if enabled) is fetched lazily before each send
+      headers: getSessionHeaders,
+      // History lives on the server (conversation cookie) - only the new message is sent.
+      // A `?persona=` page parameter (e.g. a link shared with recruiters) picks the persona
+      prepareSendMessagesRequest: ({ id, messages }) => ({
+        body: {
+          id,
+          message: messages[messages.length - 1],
+          persona: new URLSearchParams(window.location.search).get('persona') || undefined,
+        },
+      }),
+    }),
     onError: (error: Error) => {
       console.error('Chat error:', error);
+      // A rejected token (expired, secret rotated) is replaced on the next send
+      if (parseErrorBody(error.message).code === 'unauthorized') {
+        clearSessionToken();
+      }
     },
     onFinish: () => {
       // Message completed successfully
     },
   });
 
+  // Restore the conversation after a reload
+  useEffect(() => {
+    fetchConversation()
+      .then((restored) => {
+        if (restored.length > 0) setMessages(restored);
+      })
+      .catch((error) => console.error('Failed to restore conversation:', error))
+      .finally(() => setRestoring(false));
+  }, [setMessages]);
+
+  const handleNewConversation = async () => {
+    try {
+      await resetConversation();
+      setMessages([]);
+      clearError();
+    } catch (error) {
+      console.error('Failed to start a new conversation:', error);
+    }
+  };
+
   const isLoading = status === 'submitted' || status === 'streaming';
+  // The transport surfaces non-2xx responses with the JSON body as the message
+  const errorBody = error ? parseErrorBody(error.message) : null;
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
@@ -45,41 +113,67 @@ export default function ChatInterface() {
     e.preventDefault();
     if (!input.trim() || isLoading) return;
 
-    sendMessage({ text: input });
+    // Per-request headers are merged with the transport's session headers
+    sendMessage(
+      { text: input },
+      debugEnabled && adminToken ? { headers: { 'X-Debug': '1', Authorization: `Bearer ${adminToken}` } } : undefined
+    );
     setInput('');
   };
 
   return (
     <div className="flex flex-col h-screen max-w-4xl mx-auto bg-[#222034]">
       {/* Chat Header */}
-      <div className="bg-[#1a1a2e] border-b border-gray-700 p-4">
-        <h1 className="text-xl font-bold text-white">Portfolio Agent</h1>
-        <p className="text-sm text-gray-400">Ask me anything about my work!</p>
+      <div className="bg-[#1a1a2e] border-b border-gray-700 p-4 flex items-start justify-between">
+        <div>
+          <h1 className="text-xl font-bold text-white">Portfolio Agent</h1>
+          <p className="text-sm text-gray-400">Ask me anything about my work!</p>
+        </div>
+        <div className="flex items-center gap-3">
+          {adminToken && (
+            <label className="flex items-center gap-1 text-xs text-gray-400 cursor-pointer">
+              <input type="checkbox" checked={debugEnabled} onChange={(e) => setDebugEnabled(e.target.checked)} />
+              Debug
+            </label>
+          )}
+          <button
+            type="button"
+            onClick={handleNewConversation}
+            disabled={isLoading || messages.length === 0}
+            className="px-3 py-1 text-xs text-gray-300 rounded border border-gray-600 hover:border-blue-500 hover:text-white disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            New conversation
+          </button>
+        </div>
       </div>
 
       {/* Messages Container */}
       <div className="flex-1 overflow-y-auto p-4 space-y-2">
         {messages.length === 0 && (
           <div className="text-center text-gray-400 mt-8">
-            <p>Start a conversation to learn about my portfolio!</p>
+            <p>{restoring ? 'Loading conversation…' : 'Start a conversation to learn about my portfolio!'}</p>
           </div>
         )}
         
         {messages.map((message) => {
           // AI SDK 6.0 uses 'parts' array instead of 'content' string
           const parts = message.parts || [];
-          const textParts = parts
-            .filter(isTextUIPart)
-            .map(part => part.text);
-          const messageText = textParts.join('');
+          const messageText = extractText(message);
+          // Retrieved sources arrive as a data part before the answer text
+          const citations = parts.find((part) => part.type === 'data-citations')?.data;
+          // Only present when the message was sent in debug mode
+          const debug = parts.find((part) => part.type === 'data-debug')?.data;
           
           return (
-            <PixelBubble
-              key={message.id}
-              message={messageText}
-              sender={message.role === 'user' ? 'you' : 'me'}
-              profilePicture={message.role === 'user' ? '/pfp-you.png' : '/pfp-me.png'}
-            />
+            <React.Fragment key={message.id}>
+              <PixelBubble
+                message={messageText}
+                sender={message.role === 'user' ? 'you' : 'me'}
+                profilePicture={message.role === 'user' ? '/pfp-you.png' : '/pfp-me.png'}
+                citations={citations}
+              />
+              {debug && debugEnabled && <DebugPanel debug={debug} />}
+            </React.Fragment>
           );
         })}
         
@@ -105,14 +199,15 @@ export default function ChatInterface() {
           </div>
         )}
 
-        {error && (
+        {errorBody && (
           <div className="bg-red-900/20 border border-red-700 rounded-lg p-3 mb-4">
             <p className="text-red-300 text-sm">
-              {error.message || 'An error occurred. Please try again.'}
+              {errorBody.message}
             </p>
-            {error.message?.includes('rate limit') && (
+            {ERROR_HINTS[errorBody.code] && (
               <p className="text-red-400 text-xs mt-1">
-                Please wait a moment before sending another message.
+                {ERROR_HINTS[errorBody.code]}
+                {errorBody.retryAfter ? ` (retry in ${errorBody.retryAfter}s)` : ''}
               </p>
             )}
           </div>
@@ -0,0 +1,65 @@
+'use client';
+
+import React, { useState } from 'react';
+import type { Citation } from '@/lib/citations';
+
+interface CitationChipsProps {
+  citations: Citation[];
+}
+
+/**
+ * Source chips under a bot reply
+ * Chips with a `url` open it; the others expand to show the chunk snippet and score
+ */
+export default function CitationChips({ citations }: CitationChipsProps) {
+  const [openChunkId, setOpenChunkId] = useState<string | null>(null);
+  const open = citations.find((citation) => citation.chunkId === openChunkId);
+
+  if (citations.length === 0) return null;
+
+  return (
+    <div className="mt-2 max-w-full">
+      <div className="flex flex-wrap gap-1">
+        {citations.map((citation) => {
+          const label = typeof citation.metadata.category === 'string'
+            ? `${citation.title} · ${citation.metadata.category}`
+            : citation.title;
+          const chipClass = 'px-2 py-0.5 text-xs rounded border border-gray-600 bg-[#2d2d44] text-gray-300 hover:border-blue-500 hover:text-white';
+
+          return citation.url ? (
+            <a
+              key={citation.chunkId}
+              href={citation.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className={chipClass}
+              title={citation.snippet}
+            >
+              {label} ↗
+            </a>
+          ) : (
+            <button
+              key={citation.chunkId}
+              type="button"
+              onClick={() => setOpenChunkId(openChunkId === citation.chunkId ? null : citation.chunkId)}
+              className={`${chipClass} ${openChunkId === citation.chunkId ? 'border-blue-500 text-white' : ''}`}
+              title={citation.snippet}
+              aria-expanded={openChunkId === citation.chunkId}
+            >
+              {label}
+            </button>
+          );
+        })}
+      </div>
+
+      {open && (
+        <div className="mt-1 p-2 text-xs text-gray-400 bg-[#1a1a2e] border border-gray-700 rounded">
+          <p className="text-gray-300">{open.snippet}</p>
+          <p className="mt-1 font-mono">
+            {open.chunkId} · score {open.score.toFixed(3)}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
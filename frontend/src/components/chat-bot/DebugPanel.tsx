@@ -0,0 +1,107 @@
+'use client';
+
+import React from 'react';
+import type { ChatDebugInfo, RetrievalDebug } from '@/lib/chat-debug';
+import type { Citation } from '@/lib/citations';
+
+interface DebugPanelProps {
+  debug: ChatDebugInfo;
+}
+
+function formatScore(score: number | undefined): string {
+  return score === undefined ? '–' : score.toFixed(3);
+}
+
+function ChunkList({ title, chunks, tone }: { title: string; chunks: Citation[]; tone: string }) {
+  if (chunks.length === 0) return null;
+  return (
+    <div>
+      <p className={`text-xs ${tone}`}>{title} ({chunks.length})</p>
+      <ul className="space-y-0.5">
+        {chunks.map((chunk) => (
+          <li key={chunk.chunkId} className="font-mono text-xs text-gray-300" title={chunk.snippet}>
+            {formatScore(chunk.score)} <span className="text-gray-500">
+              (v {formatScore(chunk.scores.vector)} · l {formatScore(chunk.scores.lexical)}
+              {chunk.scores.rerank !== undefined && ` · r ${formatScore(chunk.scores.rerank)}`})
+            </span> {chunk.chunkId}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function RetrievalRun({ run, index }: { run: RetrievalDebug; index: number }) {
+  return (
+    <div className="space-y-1">
+      <p className="text-xs text-gray-400">
+        Run {index + 1}: filter {run.filter ? <code>{JSON.stringify(run.filter)}</code> : 'none'} · reranker {run.reranker} ·
+        min score {run.minScore} · search {run.timings.searchMs}ms · rerank {run.timings.rerankMs}ms
+      </p>
+      {run.searches.map((search, i) => (
+        <div key={i} className="text-xs text-gray-400 font-mono">
+          “{search.query}” {search.mode} · embedding {search.queryEmbedding} · {search.vectorMatches} vector /
+          {' '}{search.lexicalMatches} lexical matches · {search.durationMs}ms
+          {search.belowThreshold.length > 0 && (
+            <div className="text-gray-500">
+              below similarity {search.similarityThreshold}:{' '}
+              {search.belowThreshold.map((miss) => `${miss.chunkId} ${miss.similarity.toFixed(3)}`).join(', ')}
+            </div>
+          )}
+        </div>
+      ))}
+      <ChunkList title="Sent to the model" chunks={run.selected} tone="text-green-300" />
+      <ChunkList title="Not selected (diversity / max results)" chunks={run.notSelected} tone="text-yellow-300" />
+      <ChunkList title="Dropped by min score" chunks={run.belowMinScore} tone="text-red-300" />
+    </div>
+  );
+}
+
+/**
+ * Inline retrieval/prompt trace under a bot reply (chat debug mode)
+ */
+export default function DebugPanel({ debug }: DebugPanelProps) {
+  const { context } = debug;
+  const timings = Object.entries(debug.timings).map(([stage, ms]) => `${stage} ${ms}ms`).join(' · ');
+
+  return (
+    <div className="ml-[88px] mb-4 p-3 bg-[#1a1a2e] border border-dashed border-gray-600 rounded text-xs text-gray-300 space-y-2">
+      <p className="font-mono text-gray-400">{debug.persona} · {debug.model} · {timings}</p>
+      <p>
+        <span className="text-gray-500">Query:</span> {debug.query.original}
+        {debug.query.rewritten !== debug.query.original && <> → <span className="text-blue-300">{debug.query.rewritten}</span></>}
+        {debug.query.expansions.length > 0 && <span className="text-gray-500"> (+ {debug.query.expansions.join(' | ')})</span>}
+      </p>
+      {debug.retrieval.map((run, i) => <RetrievalRun key={i} run={run} index={i} />)}
+      {context && (
+        <>
+          <p className="text-gray-400">
+            Context: {context.tokens.total}/{context.budget.totalTokens} tokens (system {context.tokens.system} ·
+            documents {context.tokens.documents} · history {context.tokens.history}) · {context.historyTurns} turns
+            {context.truncatedTurn && ', oldest truncated'}
+            {context.summarizedTurns > 0 && ` · ${context.summarizedTurns} summarized`}
+            {context.droppedDocuments.length > 0 && (
+              <span className="text-yellow-300"> · dropped {context.droppedDocuments.join(', ')}</span>
+            )}
+            {context.truncatedDocument && <span className="text-yellow-300"> · chunk truncated</span>}
+          </p>
+          {context.summary && (
+            <p><span className="text-gray-500">Summary:</span> {context.summary}</p>
+          )}
+        </>
+      )}
+      <p className="text-gray-400">
+        Answer cache: <span className={debug.answerCache.status === 'hit' ? 'text-green-300' : ''}>{debug.answerCache.status}</span>
+        {debug.answerCache.similarity !== undefined && ` · closest ${debug.answerCache.similarity.toFixed(3)}`}
+        {debug.answerCache.cachedQuery && ` · “${debug.answerCache.cachedQuery}”`}
+        {debug.answerCache.reason && ` · ${debug.answerCache.reason}`}
+      </p>
+      {debug.systemPrompt !== undefined && (
+        <details>
+          <summary className="cursor-pointer text-gray-400 hover:text-white">System prompt ({debug.systemPrompt.length} chars)</summary>
+          <pre className="mt-1 p-2 bg-[#2d2d44] rounded whitespace-pre-wrap break-words max-h-80 overflow-y-auto">{debug.systemPrompt}</pre>
+        </details>
+      )}
+    </div>
+  );
+}
@@ -1,10 +1,14 @@
 import React from 'react';
 import Image from 'next/image';
+import CitationChips from './CitationChips';
+import type { Citation } from '@/lib/citations';
 
 interface PixelBubbleProps {
   message: string | React.ReactNode;
   sender: 'me' | 'you';
   profilePicture: string;
+  /** Sources the reply was grounded on (bot messages only) */
+  citations?: Citation[];
 }
 
 /**
@@ -21,7 +25,7 @@ interface PixelBubbleProps {
  * - Top/Bottom edges: 16x16px
  * - Center: stretch x and y-wise
  */
-export default function PixelBubble({ message, sender, profilePicture }: PixelBubbleProps) {
+export default function PixelBubble({ message, sender, profilePicture, citations }: PixelBubbleProps) {
   const isMe = sender === 'me';
   const bubbleClass = isMe ? 'message-bubble-me' : 'message-bubble-you';
   
@@ -45,6 +49,7 @@ export default function PixelBubble({ message, sender, profilePicture }: PixelBu
             {message}
           </div>
         </div>
+        {isMe && citations && <CitationChips citations={citations} />}
       </div>
     </div>
   );
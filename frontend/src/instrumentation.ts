@@ -0,0 +1,18 @@
+import { getPersonaConfig } from './lib/personas';
+import { getModelChain, modelEntryId, parseModelChain } from './lib/chat-models';
+
+/**
+ * Runs once when the server starts (Next.js instrumentation hook)
+ * An invalid personas.json or model chain fails startup with every problem
+ * listed, rather than the first chat request.
+ */
+export function register() {
+  const config = getPersonaConfig();
+  console.log(`Personas: ${Object.keys(config.personas).join(', ')} (default: ${process.env.PERSONA || config.default})`);
+
+  console.log(`Chat models: ${getModelChain().map(modelEntryId).join(' > ')}`);
+  for (const name of ['QUERY_REWRITE_MODEL', 'RERANKER_MODEL', 'CONTEXT_SUMMARY_MODEL']) {
+    const value = process.env[name];
+    if (value) parseModelChain(value, name);
+  }
+}
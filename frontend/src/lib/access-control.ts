@@ -0,0 +1,245 @@
+import { getStore, type StoreScript } from './storage';
+import { BadRequestError, ForbiddenError, UnauthorizedError } from './errors';
+import { envNumber } from './env';
+import { meetsDifficulty } from './proof-of-work';
+
+/**
+ * Access control for the public API (/api/chat, POST /api/initialize)
+ *
+ * 1. Origin allow-list - the request's Origin (or Referer) must exactly match
+ *    an allowed origin (scheme + host + port). Enforced in production; in
+ *    development it only applies when ALLOWED_ORIGINS is set.
+ * 2. Session tokens - when ACCESS_TOKEN_SECRET is set, the page obtains a
+ *    short-lived HMAC-signed token from /api/session and sends it as
+ *    `X-Session-Token`. Tokens are bound to the origin they were issued to.
+ * 3. Proof of work (optional) - with ACCESS_POW_DIFFICULTY > 0, a token is
+ *    only issued for a solved challenge; each challenge can be redeemed once.
+ *
+ * Origin headers can be forged outside a browser, so the origin check alone
+ * only stops other websites - tokens (+ proof of work) are what make scripted
+ * abuse expensive.
+ *
+ * ALLOWED_ORIGINS - comma-separated, e.g. https://me.vercel.app,https://me.dev
+ *   (ALLOWED_DOMAIN is still read as https://{domain})
+ * ACCESS_TOKEN_SECRET - enables session tokens
+ * ACCESS_TOKEN_TTL_SECONDS (900)
+ * ACCESS_POW_DIFFICULTY - leading zero bits, 0 = off (default)
+ */
+export interface AccessControlConfig {
+  allowedOrigins: string[];
+  /** Reject unknown origins (always in production) */
+  enforceOrigin: boolean;
+  tokenSecret?: string;
+  tokenTtlSeconds: number;
+  powDifficulty: number;
+}
+
+export interface SessionToken {
+  token: string;
+  expiresAt: number;
+}
+
+export interface Challenge {
+  challenge: string;
+  difficulty: number;
+  expiresAt: number;
+}
+
+interface SignedPayload {
+  typ: 'session' | 'pow';
+  /** Expiry (ms) */
+  exp: number;
+  origin?: string | null;
+  id?: string;
+}
+
+const SESSION_TOKEN_HEADER = 'x-session-token';
+const CHALLENGE_TTL_SECONDS = 120;
+
+let warnedNoSecret = false;
+
+/**
+ * `https://Example.com/path` -> `https://example.com`; bare hosts get https://
+ */
+export function normalizeOrigin(value: string): string | null {
+  const trimmed = value.trim();
+  if (!trimmed || trimmed === 'null') return null;
+  try {
+    return new URL(trimmed.includes('://') ? trimmed : `https://${trimmed}`).origin;
+  } catch {
+    return null;
+  }
+}
+
+export function getAccessControlConfig(): AccessControlConfig {
+  const configured = process.env.ALLOWED_ORIGINS || process.env.ALLOWED_DOMAIN || '';
+  const allowedOrigins = configured
+    .split(',')
+    .map(normalizeOrigin)
+    .filter((origin): origin is string => origin !== null);
+
+  return {
+    allowedOrigins,
+    enforceOrigin: process.env.NODE_ENV === 'production' || allowedOrigins.length > 0,
+    tokenSecret: process.env.ACCESS_TOKEN_SECRET || undefined,
+    tokenTtlSeconds: envNumber('ACCESS_TOKEN_TTL_SECONDS', 900),
+    powDifficulty: Math.max(0, envNumber('ACCESS_POW_DIFFICULTY', 0)),
+  };
+}
+
+/**
+ * Origin header, else the origin of the Referer
+ */
+export function getRequestOrigin(req: Request): string | null {
+  const origin = req.headers.get('origin');
+  if (origin) return normalizeOrigin(origin);
+  const referer = req.headers.get('referer');
+  return referer ? normalizeOrigin(referer) : null;
+}
+
+/**
+ * Throws ForbiddenError unless the request's origin is allowed
+ * Returns the origin (null when not sent and not enforced)
+ */
+export function assertOriginAllowed(req: Request, config: AccessControlConfig = getAccessControlConfig()): string | null {
+  const origin = getRequestOrigin(req);
+  if (!config.enforceOrigin) return origin;
+
+  if (!origin || !config.allowedOrigins.includes(origin)) {
+    console.warn(`Blocked request from origin ${origin ?? '(none)'}`);
+    throw new ForbiddenError();
+  }
+  return origin;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+function hmacKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, [
+    'sign',
+    'verify',
+  ]);
+}
+
+/**
+ * `{base64url(payload)}.{base64url(HMAC-SHA256(payload))}`
+ */
+async function sign(payload: SignedPayload, secret: string): Promise<string> {
+  const body = toBase64Url(new TextEncoder().encode(JSON.stringify(payload)));
+  const signature = await crypto.subtle.sign('HMAC', await hmacKey(secret), new TextEncoder().encode(body));
+  return `${body}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * Payload of a validly signed, unexpired token of the given type, else null
+ * crypto.subtle.verify compares in constant time
+ */
+async function verify(token: string, secret: string, typ: SignedPayload['typ']): Promise<SignedPayload | null> {
+  const [body, signature] = token.split('.');
+  if (!body || !signature) return null;
+  try {
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      await hmacKey(secret),
+      fromBase64Url(signature),
+      new TextEncoder().encode(body)
+    );
+    if (!valid) return null;
+    const payload: SignedPayload = JSON.parse(new TextDecoder().decode(fromBase64Url(body)));
+    return payload.typ === typ && payload.exp > Date.now() ? payload : null;
+  } catch {
+    return null;
+  }
+}
+
+function requireSecret(config: AccessControlConfig): string {
+  if (!config.tokenSecret) {
+    throw new BadRequestError('Session tokens are not enabled.');
+  }
+  return config.tokenSecret;
+}
+
+export async function issueSessionToken(
+  origin: string | null,
+  config: AccessControlConfig = getAccessControlConfig()
+): Promise<SessionToken> {
+  const expiresAt = Date.now() + config.tokenTtlSeconds * 1000;
+  return { token: await sign({ typ: 'session', exp: expiresAt, origin }, requireSecret(config)), expiresAt };
+}
+
+export async function createChallenge(config: AccessControlConfig = getAccessControlConfig()): Promise<Challenge> {
+  const expiresAt = Date.now() + CHALLENGE_TTL_SECONDS * 1000;
+  const challenge = await sign({ typ: 'pow', exp: expiresAt, id: crypto.randomUUID() }, requireSecret(config));
+  return { challenge, difficulty: config.powDifficulty, expiresAt };
+}
+
+/**
+ * KEYS: marker key; ARGV: ttl (s) - returns 1 the first time, 0 afterwards
+ */
+const claimScript: StoreScript<number> = {
+  lua: `return redis.call('SET', KEYS[1], '1', 'NX', 'EX', tonumber(ARGV[1])) and 1 or 0`,
+  run(store, [key], [ttl]) {
+    if (store.get(key) !== null) return 0;
+    store.set(key, 1, { ex: Number(ttl) });
+    return 1;
+  },
+};
+
+/**
+ * Check a proof-of-work solution and mark the challenge as used
+ * Throws UnauthorizedError for invalid, expired, unsolved or reused challenges
+ */
+export async function redeemChallenge(
+  challenge: string,
+  solution: string,
+  config: AccessControlConfig = getAccessControlConfig()
+): Promise<void> {
+  const payload = await verify(challenge, requireSecret(config), 'pow');
+  if (!payload?.id) {
+    throw new UnauthorizedError('Challenge is invalid or expired. Request a new one.');
+  }
+  if (!(await meetsDifficulty(challenge, solution, config.powDifficulty))) {
+    throw new UnauthorizedError('Proof of work does not meet the difficulty.');
+  }
+  const claimed = await getStore().eval(claimScript, [`pow:used:${payload.id}`], [String(CHALLENGE_TTL_SECONDS)]);
+  if (Number(claimed) !== 1) {
+    throw new UnauthorizedError('Challenge was already used. Request a new one.');
+  }
+}
+
+/**
+ * Origin allow-list + session token (when enabled)
+ * Throws ForbiddenError / UnauthorizedError
+ */
+export async function assertAccess(req: Request, config: AccessControlConfig = getAccessControlConfig()): Promise<void> {
+  const origin = assertOriginAllowed(req, config);
+
+  if (!config.tokenSecret) {
+    if (process.env.NODE_ENV === 'production' && !warnedNoSecret) {
+      warnedNoSecret = true;
+      console.warn('ACCESS_TOKEN_SECRET is not set - API access relies on the origin check only');
+    }
+    return;
+  }
+
+  const token = req.headers.get(SESSION_TOKEN_HEADER);
+  if (!token) {
+    throw new UnauthorizedError();
+  }
+  const payload = await verify(token, config.tokenSecret, 'session');
+  if (!payload) {
+    throw new UnauthorizedError('Session token is invalid or expired.');
+  }
+  if (payload.origin && payload.origin !== origin) {
+    throw new UnauthorizedError('Session token was issued to a different origin.');
+  }
+}
@@ -0,0 +1,71 @@
+import { AppError, parseErrorBody } from './errors';
+import type { AdminDocumentChange } from './admin';
+import type { Document, DocumentStatus, ReembeddingReport, SearchResult } from './vector-store';
+import type { SearchMode } from './hybrid-search';
+import type { QuotaUsage } from './quota';
+import type { RateLimitAlgorithm, RateLimitFailMode, RateLimitTier } from './rate-limit';
+
+/**
+ * Browser client for the admin API (used by the /admin dashboard)
+ * Errors are thrown as AppError with the API's code, so the UI can react to `unauthorized`
+ */
+export interface AdminStats {
+  quota: QuotaUsage;
+  rateLimit: { algorithm: RateLimitAlgorithm; failMode: RateLimitFailMode; tiers: RateLimitTier[] };
+  storage: { documentCount: number; estimatedSizeKB: number };
+  timestamp: number;
+}
+
+export interface DocumentList {
+  documents: DocumentStatus[];
+  removed: string[];
+}
+
+export interface AdminSearchResponse {
+  results: SearchResult[];
+  tookMs: number;
+}
+
+// sessionStorage key shared by /admin and the chat debug toggle - the token never outlives the tab
+export const ADMIN_TOKEN_KEY = 'admin-token';
+
+async function request<T>(token: string, path: string, init: { method?: string; body?: unknown } = {}): Promise<T> {
+  const response = await fetch(`/api/admin/${path}`, {
+    method: init.method || 'GET',
+    headers: {
+      Authorization: `Bearer ${token}`,
+      ...(init.body !== undefined && { 'Content-Type': 'application/json' }),
+    },
+    body: init.body !== undefined ? JSON.stringify(init.body) : undefined,
+  });
+
+  if (!response.ok) {
+    const body = parseErrorBody(await response.text());
+    const details = body.issues?.map((issue) => `${issue.path}: ${issue.message}`).join('; ');
+    throw new AppError(body.code, details ? `${body.message} (${details})` : body.message, { status: response.status });
+  }
+  return response.json();
+}
+
+// Ids may contain slashes - encode each segment, keep the separators
+function documentPath(id: string): string {
+  return `documents/${id.split('/').map(encodeURIComponent).join('/')}`;
+}
+
+export const adminApi = {
+  stats: (token: string) => request<AdminStats>(token, 'stats'),
+  listDocuments: (token: string) => request<DocumentList>(token, 'documents'),
+  getDocument: (token: string, id: string) =>
+    request<{ document: Document; status: DocumentStatus }>(token, documentPath(id)),
+  addDocument: (token: string, document: Document) =>
+    request<AdminDocumentChange>(token, 'documents', { method: 'POST', body: document }),
+  updateDocument: (token: string, id: string, changes: Pick<Document, 'content' | 'metadata'>) =>
+    request<AdminDocumentChange>(token, documentPath(id), { method: 'PUT', body: changes }),
+  deleteDocument: (token: string, id: string) =>
+    request<AdminDocumentChange>(token, documentPath(id), { method: 'DELETE' }),
+  reembed: (token: string, ids?: string[]) =>
+    request<{ report: ReembeddingReport }>(token, 'reembed', { method: 'POST', body: { ids } }),
+  purgeCache: (token: string) => request<{ purged: number }>(token, 'cache', { method: 'DELETE' }),
+  search: (token: string, query: string, mode: SearchMode, limit: number) =>
+    request<AdminSearchResponse>(token, 'search', { method: 'POST', body: { query, mode, limit } }),
+};
@@ -0,0 +1,195 @@
+import {
+  getCorpusOverrides,
+  getDocumentStatuses,
+  initializePortfolioData,
+  loadPortfolioDocuments,
+  saveCorpusOverrides,
+  type Document,
+  type DocumentStatus,
+  type ReembeddingReport,
+} from './vector-store';
+import { BadRequestError, ConflictError, ForbiddenError, NotFoundError, UnauthorizedError, type ValidationIssue } from './errors';
+
+/**
+ * Admin API for the knowledge base
+ *
+ * Requests authenticate with `Authorization: Bearer {ADMIN_TOKEN}`; without
+ * ADMIN_TOKEN the admin API is disabled. Document edits are saved as corpus
+ * overrides (see vector-store.ts) and embedded right away - only the touched
+ * document is re-embedded. If embedding fails (quota), the edit is kept and
+ * picked up by the next re-embed.
+ */
+export interface AdminDocumentInput {
+  content: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface AdminDocumentChange {
+  document: DocumentStatus | null;
+  report: ReembeddingReport | null;
+  /** Set when the edit was saved but embedding it failed */
+  embeddingError?: string;
+}
+
+const MAX_ID_LENGTH = 200;
+const MAX_CONTENT_LENGTH = 100_000;
+
+async function sha256(value: string): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value)));
+}
+
+/**
+ * Compare digests rather than the strings, so timing doesn't leak the token
+ */
+async function tokensMatch(candidate: string, expected: string): Promise<boolean> {
+  const [a, b] = await Promise.all([sha256(candidate), sha256(expected)]);
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a[i] ^ b[i];
+  return diff === 0;
+}
+
+function getBearerToken(req: Request): string | null {
+  const match = req.headers.get('authorization')?.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : null;
+}
+
+/**
+ * True when the request carries the admin token
+ */
+export async function isAdminRequest(req: Request): Promise<boolean> {
+  const expected = process.env.ADMIN_TOKEN;
+  const token = getBearerToken(req);
+  return Boolean(expected && token && (await tokensMatch(token, expected)));
+}
+
+/**
+ * Throws ForbiddenError when the admin API is disabled, UnauthorizedError for a missing/wrong token
+ */
+export async function assertAdmin(req: Request): Promise<void> {
+  if (!process.env.ADMIN_TOKEN) {
+    throw new ForbiddenError('The admin API is disabled. Set ADMIN_TOKEN to enable it.');
+  }
+  if (!(await isAdminRequest(req))) {
+    throw new UnauthorizedError('A valid admin token is required.');
+  }
+}
+
+export function validateDocumentId(id: string): string {
+  const trimmed = id.trim();
+  if (!trimmed || trimmed.length > MAX_ID_LENGTH) {
+    throw new BadRequestError('Invalid document id', [
+      { path: 'id', message: `must be 1-${MAX_ID_LENGTH} characters` },
+    ]);
+  }
+  return trimmed;
+}
+
+/**
+ * Validate a document body; `requireContent` is false for partial updates
+ */
+export function validateDocumentInput(body: unknown, requireContent: boolean = true): Partial<AdminDocumentInput> {
+  const issues: ValidationIssue[] = [];
+  const input = (typeof body === 'object' && body !== null ? body : {}) as Record<string, unknown>;
+
+  if (input.content !== undefined || requireContent) {
+    if (typeof input.content !== 'string' || input.content.trim().length === 0) {
+      issues.push({ path: 'content', message: 'must be a non-empty string' });
+    } else if (input.content.length > MAX_CONTENT_LENGTH) {
+      issues.push({ path: 'content', message: `must be at most ${MAX_CONTENT_LENGTH} characters` });
+    }
+  }
+  if (input.metadata !== undefined && (typeof input.metadata !== 'object' || input.metadata === null || Array.isArray(input.metadata))) {
+    issues.push({ path: 'metadata', message: 'must be an object' });
+  }
+
+  if (issues.length > 0) {
+    throw new BadRequestError('Invalid document', issues);
+  }
+  return {
+    content: typeof input.content === 'string' ? input.content.trim() : undefined,
+    metadata: input.metadata as Record<string, unknown> | undefined,
+  };
+}
+
+export async function listDocuments() {
+  return getDocumentStatuses();
+}
+
+export async function getDocument(id: string): Promise<{ document: Document; status: DocumentStatus }> {
+  const [docs, { documents }] = await Promise.all([loadPortfolioDocuments(), getDocumentStatuses()]);
+  const document = docs.find((doc) => doc.id === id);
+  const status = documents.find((doc) => doc.id === id);
+  if (!document || !status) {
+    throw new NotFoundError(`Document "${id}" not found`);
+  }
+  return { document, status };
+}
+
+/**
+ * Embed pending changes; a failure is reported instead of thrown since the edit is already saved
+ */
+async function embedChange(id: string, force: boolean = false): Promise<AdminDocumentChange> {
+  let report: ReembeddingReport | null = null;
+  let embeddingError: string | undefined;
+  try {
+    report = await initializePortfolioData(undefined, force ? { force: [id] } : {});
+  } catch (error) {
+    embeddingError = error instanceof Error ? error.message : String(error);
+    console.error(`Re-embedding after admin change to "${id}" failed:`, error);
+  }
+  const { documents } = await getDocumentStatuses();
+  return { document: documents.find((doc) => doc.id === id) ?? null, report, embeddingError };
+}
+
+export async function addDocument(id: string, input: AdminDocumentInput): Promise<AdminDocumentChange> {
+  const docs = await loadPortfolioDocuments();
+  if (docs.some((doc) => doc.id === id)) {
+    throw new ConflictError(`Document "${id}" already exists`);
+  }
+
+  const overrides = await getCorpusOverrides();
+  overrides.documents[id] = { id, content: input.content, metadata: input.metadata || {} };
+  overrides.deleted = overrides.deleted.filter((deletedId) => deletedId !== id);
+  await saveCorpusOverrides(overrides);
+  return embedChange(id);
+}
+
+/**
+ * Replace content and/or metadata; omitted fields keep their current value
+ */
+export async function updateDocument(id: string, input: Partial<AdminDocumentInput>): Promise<AdminDocumentChange> {
+  const { document } = await getDocument(id);
+
+  const overrides = await getCorpusOverrides();
+  overrides.documents[id] = {
+    id,
+    content: input.content ?? document.content,
+    metadata: input.metadata ?? document.metadata ?? {},
+  };
+  await saveCorpusOverrides(overrides);
+  return embedChange(id);
+}
+
+export async function deleteDocument(id: string): Promise<AdminDocumentChange> {
+  await getDocument(id);
+
+  const overrides = await getCorpusOverrides();
+  delete overrides.documents[id];
+  if (!overrides.deleted.includes(id)) overrides.deleted.push(id);
+  await saveCorpusOverrides(overrides);
+  return embedChange(id);
+}
+
+/**
+ * Re-embed the given documents (all when `ids` is empty), even if unchanged
+ */
+export async function forceReembed(ids: string[] = []): Promise<ReembeddingReport> {
+  if (ids.length > 0) {
+    const known = new Set((await loadPortfolioDocuments()).map((doc) => doc.id));
+    const unknown = ids.filter((id) => !known.has(id));
+    if (unknown.length > 0) {
+      throw new NotFoundError(`Unknown document ids: ${unknown.join(', ')}`);
+    }
+  }
+  return initializePortfolioData(undefined, { force: ids.length > 0 ? ids : true });
+}
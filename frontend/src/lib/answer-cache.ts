@@ -0,0 +1,196 @@
+import { getStore } from './storage';
+import { generatePortfolioHash } from './embeddings';
+import { getEmbeddingModelId } from './embedding-providers';
+import { cosineSimilarity, getCorpusHash, getQueryEmbedding } from './vector-store';
+import { setQueryCache } from './query-cache';
+import { isQuotaOrRateLimitError } from './errors';
+import { envNumber } from './env';
+import { getDefaultSearchMode } from './hybrid-search';
+import type { Citation } from './citations';
+
+/**
+ * Semantic answer cache - repeated questions skip generation
+ *
+ * Answers are stored per cache version: a hash of the corpus (`portfolio:hash`),
+ * the embedding model and the caller's scope (generation model, prompt). Editing
+ * content changes the corpus hash, so older answers are never served again and
+ * expire on their own.
+ *
+ * Keys (all tracked in `query:cache:keys`, so the admin cache purge clears them):
+ * - `answer:cache:{version}:{queryHash}` - { query, embedding, answer, citations }
+ * - `answer:cache:{version}:index` - entry ids, newest last (capped)
+ *
+ * A lookup first tries the exact query, then compares the query embedding with
+ * every entry of the version and serves the closest one at or above
+ * ANSWER_CACHE_SIMILARITY. With SEARCH_MODE=lexical only exact matches are
+ * served, so the cache never spends embedding quota the search itself doesn't.
+ */
+export interface CachedAnswer {
+  query: string;
+  embedding: number[];
+  answer: string;
+  citations: Citation[];
+  createdAt: number;
+}
+
+export interface AnswerCacheLookup {
+  status: 'hit' | 'miss' | 'skipped';
+  answer?: CachedAnswer;
+  /** Similarity of the served entry (1 for an exact match) */
+  similarity?: number;
+  /** Why the cache was skipped */
+  reason?: string;
+  /** Set on a miss so the answer can be stored without re-embedding */
+  key?: AnswerCacheKey;
+}
+
+export interface AnswerCacheKey {
+  version: string;
+  query: string;
+  /** Empty in lexical mode - the entry only matches its exact query */
+  embedding: number[];
+}
+
+export interface AnswerCacheSettings {
+  enabled: boolean;
+  /** Minimum cosine similarity to reuse an answer (ANSWER_CACHE_SIMILARITY, default 0.95) */
+  similarity: number;
+  /** ANSWER_CACHE_TTL_SECONDS, default 86400 */
+  ttlSeconds: number;
+  /** Entries kept per version, oldest dropped first (ANSWER_CACHE_MAX_ENTRIES, default 200) */
+  maxEntries: number;
+}
+
+export function getAnswerCacheSettings(): AnswerCacheSettings {
+  return {
+    enabled: process.env.ANSWER_CACHE !== 'off',
+    similarity: envNumber('ANSWER_CACHE_SIMILARITY', 0.95),
+    ttlSeconds: envNumber('ANSWER_CACHE_TTL_SECONDS', 86400),
+    maxEntries: envNumber('ANSWER_CACHE_MAX_ENTRIES', 200),
+  };
+}
+
+function normalizeQuery(query: string): string {
+  return query.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+async function getCacheVersion(scope: string): Promise<string | null> {
+  const corpusHash = await getCorpusHash();
+  if (!corpusHash) return null;
+  return generatePortfolioHash(`${corpusHash}\n${getEmbeddingModelId()}\n${scope}`);
+}
+
+function parseEntry(raw: unknown): CachedAnswer | null {
+  if (!raw) return null;
+  try {
+    const entry = (typeof raw === 'string' ? JSON.parse(raw) : raw) as CachedAnswer;
+    return Array.isArray(entry.embedding) && typeof entry.answer === 'string' ? entry : null;
+  } catch {
+    return null;
+  }
+}
+
+async function getIndex(version: string): Promise<string[]> {
+  const stored = await getStore().get<string[] | string>(`answer:cache:${version}:index`);
+  if (!stored) return [];
+  return typeof stored === 'string' ? (JSON.parse(stored) as string[]) : stored;
+}
+
+/**
+ * Find a cached answer for a standalone query
+ * `scope` identifies everything besides the corpus that shapes answers (model, prompt)
+ * Call after `ensureIndexFresh` so the corpus hash is current.
+ * Never throws - a cache failure is a miss
+ */
+export async function lookupAnswer(query: string, scope: string): Promise<AnswerCacheLookup> {
+  const settings = getAnswerCacheSettings();
+  if (!settings.enabled) {
+    return { status: 'skipped', reason: 'ANSWER_CACHE=off' };
+  }
+
+  try {
+    const version = await getCacheVersion(scope);
+    if (!version) {
+      return { status: 'skipped', reason: 'corpus not initialized' };
+    }
+
+    const store = getStore();
+    const normalized = normalizeQuery(query);
+    const exactId = await generatePortfolioHash(normalized);
+    const exact = parseEntry(await store.get(`answer:cache:${version}:${exactId}`));
+    if (exact) {
+      console.log('Answer cache hit (exact query)');
+      return { status: 'hit', answer: exact, similarity: 1 };
+    }
+
+    if (getDefaultSearchMode() === 'lexical') {
+      return { status: 'miss', key: { version, query: normalized, embedding: [] } };
+    }
+
+    // Same text retrieval embeds, so on a miss retrieval reuses it from the query embedding cache
+    const { embedding } = await getQueryEmbedding(query);
+    const key: AnswerCacheKey = { version, query: normalized, embedding };
+
+    const ids = await getIndex(version);
+    if (ids.length === 0) {
+      return { status: 'miss', key };
+    }
+
+    const pipeline = store.pipeline();
+    for (const id of ids) {
+      pipeline.get(`answer:cache:${version}:${id}`);
+    }
+    const entries = await pipeline.exec();
+
+    let best: { entry: CachedAnswer; similarity: number } | null = null;
+    for (const raw of entries) {
+      const entry = parseEntry(raw);
+      if (!entry || entry.embedding.length !== embedding.length) continue;
+      const similarity = cosineSimilarity(embedding, entry.embedding);
+      if (!best || similarity > best.similarity) best = { entry, similarity };
+    }
+
+    if (best && best.similarity >= settings.similarity) {
+      console.log(`Answer cache hit (similarity ${best.similarity.toFixed(3)} to "${best.entry.query}")`);
+      return { status: 'hit', answer: best.entry, similarity: best.similarity };
+    }
+    return { status: 'miss', key, similarity: best?.similarity };
+  } catch (error) {
+    // No embedding (quota) or store trouble: answer normally
+    if (!isQuotaOrRateLimitError(error)) {
+      console.error('Answer cache lookup failed:', error);
+    }
+    return { status: 'skipped', reason: 'lookup failed' };
+  }
+}
+
+/**
+ * Store a generated answer under the key from a missed lookup
+ * The index is read-modify-write; a concurrent store can drop an id, which only costs a future hit
+ */
+export async function storeAnswer(key: AnswerCacheKey, answer: string, citations: Citation[]): Promise<void> {
+  const settings = getAnswerCacheSettings();
+  if (!settings.enabled || !answer.trim()) return;
+
+  try {
+    const id = await generatePortfolioHash(key.query);
+    const entry: CachedAnswer = {
+      query: key.query,
+      embedding: key.embedding,
+      answer,
+      citations,
+      createdAt: Date.now(),
+    };
+
+    const ids = (await getIndex(key.version)).filter((existing) => existing !== id);
+    ids.push(id);
+    const kept = ids.slice(-settings.maxEntries);
+
+    await Promise.all([
+      setQueryCache(`answer:cache:${key.version}:${id}`, JSON.stringify(entry), settings.ttlSeconds),
+      setQueryCache(`answer:cache:${key.version}:index`, JSON.stringify(kept), settings.ttlSeconds),
+    ]);
+  } catch (error) {
+    console.error('Answer cache store failed:', error);
+  }
+}
@@ -0,0 +1,83 @@
+import { tokenize } from './tokens';
+
+/**
+ * BM25 keyword index over document chunks
+ *
+ * Built alongside the embeddings in `initializePortfolioData` and stored as
+ * one JSON value, so lexical search costs no embedding API calls. Catches
+ * exact terms ("PostgreSQL", "University of Georgia") that embeddings blur.
+ */
+export interface Bm25Index {
+  chunkCount: number;
+  averageLength: number;
+  /** Number of chunks containing each term */
+  documentFrequency: Record<string, number>;
+  chunks: Record<string, { length: number; termFrequency: Record<string, number> }>;
+}
+
+// Standard BM25 parameters: term frequency saturation and length normalization
+const K1 = 1.2;
+const B = 0.75;
+
+/**
+ * Count for `term`, ignoring inherited properties - terms like "constructor"
+ * or "tostring" must not resolve to Object.prototype members (stored indexes
+ * come back from JSON as plain objects)
+ */
+function countOf(counts: Record<string, number>, term: string): number {
+  return Object.prototype.hasOwnProperty.call(counts, term) ? counts[term] : 0;
+}
+
+export function buildBm25Index(chunks: Array<{ id: string; content: string }>): Bm25Index {
+  const index: Bm25Index = {
+    chunkCount: chunks.length,
+    averageLength: 0,
+    documentFrequency: Object.create(null),
+    chunks: Object.create(null),
+  };
+  let totalLength = 0;
+
+  for (const chunk of chunks) {
+    const terms = tokenize(chunk.content);
+    const termFrequency: Record<string, number> = Object.create(null);
+    for (const term of terms) {
+      termFrequency[term] = countOf(termFrequency, term) + 1;
+    }
+    for (const term of Object.keys(termFrequency)) {
+      index.documentFrequency[term] = countOf(index.documentFrequency, term) + 1;
+    }
+    index.chunks[chunk.id] = { length: terms.length, termFrequency };
+    totalLength += terms.length;
+  }
+
+  index.averageLength = chunks.length > 0 ? totalLength / chunks.length : 0;
+  return index;
+}
+
+/**
+ * Score chunks against a query
+ * Returns only chunks sharing at least one term (score > 0), optionally limited to `chunkIds`
+ */
+export function scoreBm25(index: Bm25Index, query: string, chunkIds?: Iterable<string>): Map<string, number> {
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  const scores = new Map<string, number>();
+  if (queryTerms.length === 0 || index.chunkCount === 0) return scores;
+
+  for (const chunkId of chunkIds ?? Object.keys(index.chunks)) {
+    const chunk = Object.prototype.hasOwnProperty.call(index.chunks, chunkId) ? index.chunks[chunkId] : undefined;
+    if (!chunk) continue;
+
+    let score = 0;
+    for (const term of queryTerms) {
+      const tf = countOf(chunk.termFrequency, term);
+      if (!tf) continue;
+      const df = countOf(index.documentFrequency, term);
+      const idf = Math.log(1 + (index.chunkCount - df + 0.5) / (df + 0.5));
+      const lengthNorm = 1 - B + B * (chunk.length / (index.averageLength || 1));
+      score += idf * ((tf * (K1 + 1)) / (tf + K1 * lengthNorm));
+    }
+    if (score > 0) scores.set(chunkId, score);
+  }
+
+  return scores;
+}
@@ -0,0 +1,102 @@
+import { toCitations, type Citation } from './citations';
+import type { MetadataFilter } from './metadata-filter';
+import type { RetrievalTrace } from './retrieval';
+import type { SearchTrace } from './vector-store';
+import type { AnswerCacheLookup } from './answer-cache';
+import type { AssembledContext, ContextBudget } from './context-builder';
+
+/**
+ * Debug mode for /api/chat
+ *
+ * Requested with `X-Debug: 1` (or `?debug=1`) and only honored for the admin
+ * token (`Authorization: Bearer {ADMIN_TOKEN}`). The response then streams a
+ * `data-debug` part showing what retrieval and prompting did, so a wrong
+ * answer can be traced to retrieval or generation.
+ */
+export interface RetrievalDebug {
+  filter: MetadataFilter | null;
+  reranker: RetrievalTrace['reranker'];
+  minScore: number;
+  searches: SearchTrace[];
+  selected: Citation[];
+  /** Dropped by RETRIEVAL_MIN_SCORE */
+  belowMinScore: Citation[];
+  /** Above the cutoff but not picked (MMR / RETRIEVAL_MAX_RESULTS) */
+  notSelected: Citation[];
+  timings: RetrievalTrace['timings'];
+}
+
+/** Milliseconds per stage of the request */
+export type StageTimings = Record<string, number>;
+
+export interface ChatDebugInfo {
+  query: {
+    original: string;
+    /** Standalone query after rewriting (same as `original` when not rewritten) */
+    rewritten: string;
+    expansions: string[];
+  };
+  /** One entry per retrieval run - a second when the derived filter matched nothing */
+  retrieval: RetrievalDebug[];
+  answerCache: {
+    status: AnswerCacheLookup['status'];
+    /** Closest cached query's similarity (also reported on a miss) */
+    similarity?: number;
+    cachedQuery?: string;
+    reason?: string;
+  };
+  /** Not set for answer cache hits (nothing was retrieved or prompted) */
+  context?: {
+    budget: ContextBudget;
+    tokens: AssembledContext['tokens'];
+    /** Turns sent to the model, including the new message */
+    historyTurns: number;
+    truncatedTurn: boolean;
+    /** Turns folded into the rolling summary by this request */
+    summarizedTurns: number;
+    summary?: string;
+    droppedDocuments: string[];
+    truncatedDocument: boolean;
+  };
+  systemPrompt?: string;
+  model: string;
+  persona: string;
+  /** Generation stages (`firstToken`, `generation`, `total`) are added once the answer finished */
+  timings: StageTimings;
+}
+
+function isTruthy(value: string | null): boolean {
+  return value === '1' || value === 'true';
+}
+
+/**
+ * True when the client asked for debug output (the caller still checks the admin token)
+ */
+export function isDebugRequested(req: Request): boolean {
+  return isTruthy(req.headers.get('x-debug')) || isTruthy(new URL(req.url).searchParams.get('debug'));
+}
+
+export function toRetrievalDebug(trace: RetrievalTrace, filter: MetadataFilter | null): RetrievalDebug {
+  return {
+    filter,
+    reranker: trace.reranker,
+    minScore: trace.minScore,
+    searches: trace.searches,
+    selected: toCitations(trace.selected),
+    belowMinScore: toCitations(trace.belowMinScore),
+    notSelected: toCitations(trace.notSelected),
+    timings: trace.timings,
+  };
+}
+
+/**
+ * Run one stage and record how long it took under `timings[stage]`
+ */
+export async function timeStage<T>(timings: StageTimings, stage: string, fn: () => Promise<T>): Promise<T> {
+  const startedAt = Date.now();
+  try {
+    return await fn();
+  } finally {
+    timings[stage] = Date.now() - startedAt;
+  }
+}
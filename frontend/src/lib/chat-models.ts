@@ -0,0 +1,283 @@
+import { APICallError, wrapLanguageModel, type LanguageModelMiddleware } from 'ai';
+import { google } from '@ai-sdk/google';
+import { createOpenAI } from '@ai-sdk/openai';
+import { CircuitOpenError, QuotaExceededError, RateLimitError, UpstreamError } from './errors';
+import { withResilience } from './resilience';
+import { recordTokenUsage, reserveQuota, type QuotaKind } from './quota';
+import { estimateTokens } from './tokens';
+
+/**
+ * Chat model registry with a fallback chain
+ *
+ * CHAT_MODELS is an ordered, comma-separated list of `provider:model` entries.
+ * A call goes to the first model; when it is rate-limited or unavailable
+ * (429, 5xx, network, auth, unknown model, open circuit - after its own
+ * retries) or its provider's quota budget is spent, the next one is tried.
+ * Other errors (bad request) fail straight away, since another model wouldn't help.
+ *
+ * Each entry reserves its provider's budget (lib/quota.ts) before its call and
+ * records the output tokens after: gemini -> `generation`, openai ->
+ * `openai-generation`; compatible (local) servers aren't metered.
+ *
+ * Providers:
+ * - gemini - GOOGLE_GENERATIVE_AI_API_KEY
+ * - openai - OPENAI_API_KEY (OPENAI_BASE_URL if set)
+ * - compatible - any OpenAI-compatible server (Ollama, llama.cpp, LM Studio, vLLM):
+ *   CHAT_COMPATIBLE_BASE_URL (e.g. http://localhost:11434/v1), CHAT_COMPATIBLE_API_KEY (optional)
+ *
+ * Per-model settings go after `?`: `temperature` (0-2) and `maxOutputTokens`,
+ * e.g. `compatible:llama3.1:8b?temperature=0.2&maxOutputTokens=600`. They
+ * override the persona's values for chat answers.
+ *
+ * A bare model name means Gemini. Without CHAT_MODELS the chain is just
+ * `gemini:{GEMINI_MODEL}` (default gemini-2.5-flash). Only establishing a
+ * stream falls back - a stream that fails halfway isn't restarted.
+ */
+export type ChatProviderName = 'gemini' | 'openai' | 'compatible';
+
+export interface ChatModelEntry {
+  provider: ChatProviderName;
+  model: string;
+  temperature?: number;
+  maxOutputTokens?: number;
+}
+
+export type LanguageModelChain = ReturnType<typeof wrapLanguageModel>;
+
+export interface ChatModel {
+  model: LanguageModelChain;
+  chain: ChatModelEntry[];
+  /** e.g. "gemini:gemini-2.5-flash > openai:gpt-4o-mini" (cache keys, logs, debug) */
+  id: string;
+  /** Entry that handled the latest call (set once it succeeded) */
+  answeredBy?: ChatModelEntry;
+}
+
+type CallOptions = Parameters<NonNullable<LanguageModelMiddleware['wrapGenerate']>>[0]['params'];
+type StreamPart = Awaited<ReturnType<LanguageModelChain['doStream']>>['stream'] extends ReadableStream<infer Part> ? Part : never;
+
+const PROVIDERS: ChatProviderName[] = ['gemini', 'openai', 'compatible'];
+const QUOTA_KINDS: Record<ChatProviderName, QuotaKind | null> = {
+  gemini: 'generation',
+  openai: 'openai-generation',
+  compatible: null,
+};
+const SETTINGS = ['temperature', 'maxOutputTokens'];
+
+export function modelEntryId(entry: ChatModelEntry): string {
+  return `${entry.provider}:${entry.model}`;
+}
+
+/**
+ * Parse one `provider:model?setting=value` entry; problems are added to `issues`
+ * Model names may contain `:` themselves (Ollama tags such as `llama3.1:8b`).
+ */
+export function parseModelSpec(spec: string, issues: string[] = []): ChatModelEntry | null {
+  const [target, query = ''] = spec.trim().split('?', 2);
+  const separator = target.indexOf(':');
+  const prefix = separator > 0 ? target.slice(0, separator) : '';
+  const [provider, model] = (PROVIDERS as string[]).includes(prefix)
+    ? [prefix as ChatProviderName, target.slice(separator + 1).trim()]
+    : ['gemini' as const, target.trim()];
+
+  if (!model) {
+    issues.push(`"${spec.trim()}": missing model name`);
+    return null;
+  }
+  if (provider === 'compatible' && !process.env.CHAT_COMPATIBLE_BASE_URL) {
+    issues.push(`"${spec.trim()}": CHAT_COMPATIBLE_BASE_URL must be set for compatible models`);
+  }
+
+  const entry: ChatModelEntry = { provider, model };
+  for (const [name, value] of new URLSearchParams(query)) {
+    const number = Number(value);
+    if (!SETTINGS.includes(name)) {
+      issues.push(`"${spec.trim()}": unknown setting "${name}" (expected ${SETTINGS.join(', ')})`);
+    } else if (name === 'temperature' && (!value || !Number.isFinite(number) || number < 0 || number > 2)) {
+      issues.push(`"${spec.trim()}": temperature must be a number between 0 and 2`);
+    } else if (name === 'maxOutputTokens' && (!Number.isInteger(number) || number <= 0)) {
+      issues.push(`"${spec.trim()}": maxOutputTokens must be a positive integer`);
+    } else {
+      entry[name as 'temperature' | 'maxOutputTokens'] = number;
+    }
+  }
+  return entry;
+}
+
+/**
+ * Parse CHAT_MODELS-style lists; every problem is listed in the error
+ */
+export function parseModelChain(value: string, source: string = 'CHAT_MODELS'): ChatModelEntry[] {
+  const issues: string[] = [];
+  const chain = value
+    .split(',')
+    .filter((spec) => spec.trim())
+    .map((spec) => parseModelSpec(spec, issues))
+    .filter((entry): entry is ChatModelEntry => entry !== null);
+
+  if (chain.length === 0 && issues.length === 0) {
+    issues.push('must list at least one model');
+  }
+  if (issues.length > 0) {
+    throw new Error(`Invalid ${source}:\n  ${issues.join('\n  ')}`);
+  }
+  return chain;
+}
+
+/**
+ * The configured chain; `preferred` (e.g. a persona's or helper's model) goes first
+ */
+export function getModelChain(preferred?: string): ChatModelEntry[] {
+  const configured = parseModelChain(process.env.CHAT_MODELS || process.env.GEMINI_MODEL || 'gemini-2.5-flash');
+  if (!preferred) return configured;
+
+  const [first] = parseModelChain(preferred, `model "${preferred}"`);
+  return [first, ...configured.filter((entry) => modelEntryId(entry) !== modelEntryId(first))];
+}
+
+function providerModel(entry: ChatModelEntry) {
+  switch (entry.provider) {
+    case 'gemini':
+      return google(entry.model);
+    case 'openai':
+      // Chat Completions rather than the Responses API, so OPENAI_BASE_URL proxies work too
+      return createOpenAI({
+        apiKey: process.env.OPENAI_API_KEY,
+        baseURL: process.env.OPENAI_BASE_URL || undefined,
+      }).chat(entry.model);
+    case 'compatible':
+      return createOpenAI({
+        name: 'compatible',
+        // Local servers usually ignore the key, but the SDK requires one
+        apiKey: process.env.CHAT_COMPATIBLE_API_KEY || 'not-needed',
+        baseURL: process.env.CHAT_COMPATIBLE_BASE_URL,
+      }).chat(entry.model);
+  }
+}
+
+/**
+ * True when the next model in the chain might succeed where this one failed
+ */
+function shouldFallBack(error: unknown): boolean {
+  if (
+    error instanceof CircuitOpenError ||
+    error instanceof RateLimitError ||
+    error instanceof UpstreamError ||
+    error instanceof QuotaExceededError
+  ) {
+    return true;
+  }
+  if (APICallError.isInstance(error)) {
+    const status = error.statusCode;
+    return status === undefined || status >= 500 || [401, 403, 404, 408, 429].includes(status);
+  }
+  // fetch() rejects with a TypeError on network failures (e.g. a local server that isn't running)
+  return error instanceof TypeError;
+}
+
+function estimatePromptTokens(prompt: CallOptions['prompt']): number {
+  return estimateTokens(
+    prompt
+      .map((message) =>
+        typeof message.content === 'string'
+          ? message.content
+          : message.content.map((part) => (part.type === 'text' ? part.text : '')).join('\n')
+      )
+      .join('\n')
+  );
+}
+
+/**
+ * Record output tokens from the stream's finish part
+ */
+function recordStreamUsage(stream: ReadableStream<StreamPart>, kind: QuotaKind): ReadableStream<StreamPart> {
+  return stream.pipeThrough(
+    new TransformStream<StreamPart, StreamPart>({
+      async transform(part, controller) {
+        if (part.type === 'finish') {
+          await recordTokenUsage(kind, part.usage.outputTokens.total);
+        }
+        controller.enqueue(part);
+      },
+    })
+  );
+}
+
+function describeError(error: unknown): string {
+  if (APICallError.isInstance(error)) return `${error.statusCode ?? 'network'} ${error.message}`;
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * One chain entry: resilience (retries + circuit breaker per model) and its settings
+ */
+function createEntryModel(entry: ChatModelEntry, applySettings: boolean): LanguageModelChain {
+  const model = withResilience(providerModel(entry), `generation:${modelEntryId(entry)}`);
+  if (!applySettings) return model;
+
+  return wrapLanguageModel({
+    model,
+    middleware: {
+      specificationVersion: 'v3',
+      transformParams: async ({ params }) => ({
+        ...params,
+        temperature: entry.temperature ?? params.temperature,
+        maxOutputTokens: entry.maxOutputTokens ?? params.maxOutputTokens,
+      }),
+    },
+  });
+}
+
+/**
+ * Language model that tries each chain entry in order
+ *
+ * `applySettings: false` ignores per-model settings - for helper calls
+ * (rewriting, reranking, summaries) that pick their own temperature.
+ * Use with `maxRetries: 0`; each entry already retries transient failures.
+ * Quota is reserved and recorded here, so callers don't touch lib/quota.ts.
+ */
+export function getChatModel(preferred?: string, options: { applySettings?: boolean } = {}): ChatModel {
+  const chain = getModelChain(preferred);
+  const models = chain.map((entry) => createEntryModel(entry, options.applySettings ?? true));
+  const chatModel: ChatModel = { model: models[0], chain, id: chain.map(modelEntryId).join(' > ') };
+
+  const attempt = async <T>(
+    params: CallOptions,
+    call: (model: LanguageModelChain, quotaKind: QuotaKind | null) => PromiseLike<T>
+  ): Promise<T> => {
+    const estimatedTokens = estimatePromptTokens(params.prompt);
+    for (let i = 0; ; i++) {
+      try {
+        const quotaKind = QUOTA_KINDS[chain[i].provider];
+        if (quotaKind) {
+          await reserveQuota(quotaKind, 1, estimatedTokens);
+        }
+        const result = await call(models[i], quotaKind);
+        chatModel.answeredBy = chain[i];
+        return result;
+      } catch (error) {
+        if (i === models.length - 1 || !shouldFallBack(error)) throw error;
+        console.warn(`Chat model ${modelEntryId(chain[i])} failed (${describeError(error)}), falling back to ${modelEntryId(chain[i + 1])}`);
+      }
+    }
+  };
+
+  chatModel.model = wrapLanguageModel({
+    model: models[0],
+    middleware: {
+      specificationVersion: 'v3',
+      wrapGenerate: ({ params }) =>
+        attempt(params, async (model, quotaKind) => {
+          const result = await model.doGenerate(params);
+          if (quotaKind) await recordTokenUsage(quotaKind, result.usage.outputTokens.total);
+          return result;
+        }),
+      wrapStream: ({ params }) =>
+        attempt(params, async (model, quotaKind) => {
+          const result = await model.doStream(params);
+          return quotaKind ? { ...result, stream: recordStreamUsage(result.stream, quotaKind) } : result;
+        }),
+    },
+  });
+  return chatModel;
+}
@@ -0,0 +1,188 @@
+import { BadRequestError, type ValidationIssue } from './errors';
+import { envNumber } from './env';
+
+/**
+ * Validation for POST /api/chat bodies
+ *
+ * The chat page sends `{ id, message }`: only the new user message, as a
+ * UIMessage (`parts` array). History is loaded from the server
+ * (lib/conversations.ts), never taken from the body. A `{ messages: [...] }`
+ * body (default useChat format) is still accepted, but only its last message
+ * is used. An optional `persona` picks a configured persona (lib/personas.ts).
+ * Older clients sent `content` or `text` strings; both are still accepted.
+ * Everything the route uses is checked here once, so no unvalidated text
+ * reaches the retriever or the model.
+ *
+ * CHAT_MAX_MESSAGE_CHARS (4000) - text characters in the message
+ * CHAT_MAX_PAYLOAD_BYTES (512000) - raw body size
+ */
+export interface ChatRequestLimits {
+  maxMessageChars: number;
+  maxPayloadBytes: number;
+}
+
+export type ChatRole = 'user' | 'assistant';
+
+export interface ChatTurn {
+  role: ChatRole;
+  content: string;
+}
+
+export interface ChatRequest {
+  /** Client-generated id of the new message, kept so the restored UI matches */
+  messageId?: string;
+  /** Text of the new user message, trimmed */
+  query: string;
+  /** Requested persona name (existence is checked by resolvePersona) */
+  persona?: string;
+}
+
+const ROLES: ChatRole[] = ['user', 'assistant'];
+
+// Part types the chat UI produces; anything else (tools, files) isn't supported by this route
+const PART_TYPES = new Set(['text', 'reasoning', 'step-start', 'source-url', 'source-document']);
+
+// Message ids are echoed back on restore - keep them short and printable
+const MESSAGE_ID_PATTERN = /^[\w-]{1,100}$/;
+
+const PERSONA_PATTERN = /^[a-z0-9][a-z0-9_-]{0,39}$/;
+
+export function getChatRequestLimits(): ChatRequestLimits {
+  return {
+    maxMessageChars: envNumber('CHAT_MAX_MESSAGE_CHARS', 4000),
+    maxPayloadBytes: envNumber('CHAT_MAX_PAYLOAD_BYTES', 512000),
+  };
+}
+
+interface MessageLike {
+  parts?: ReadonlyArray<{ type?: string; text?: string }>;
+  content?: unknown;
+  text?: unknown;
+}
+
+/**
+ * Text of a UI message: its `text` parts joined, falling back to legacy
+ * `content` / `text` strings. Used by the route and the chat UI alike.
+ */
+export function extractText(message: MessageLike): string {
+  if (Array.isArray(message.parts)) {
+    return message.parts
+      .filter((part) => part.type === 'text' && typeof part.text === 'string')
+      .map((part) => part.text)
+      .join('');
+  }
+  if (typeof message.content === 'string') return message.content;
+  if (typeof message.text === 'string') return message.text;
+  return '';
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function validateMessage(value: unknown, path: string, limits: ChatRequestLimits, issues: ValidationIssue[]): ChatTurn | null {
+  if (!isObject(value)) {
+    issues.push({ path, message: 'must be an object' });
+    return null;
+  }
+
+  const role = value.role as ChatRole;
+  if (!ROLES.includes(role)) {
+    issues.push({ path: `${path}.role`, message: `must be one of ${ROLES.join(', ')}` });
+  }
+
+  if (value.parts !== undefined) {
+    if (!Array.isArray(value.parts)) {
+      issues.push({ path: `${path}.parts`, message: 'must be an array' });
+      return null;
+    }
+    value.parts.forEach((part: unknown, i) => {
+      const partPath = `${path}.parts[${i}]`;
+      if (!isObject(part) || typeof part.type !== 'string') {
+        issues.push({ path: partPath, message: 'must be an object with a string "type"' });
+      } else if (!PART_TYPES.has(part.type) && !part.type.startsWith('data-')) {
+        issues.push({ path: `${partPath}.type`, message: `unsupported part type "${part.type}"` });
+      } else if (part.type === 'text' && typeof part.text !== 'string') {
+        issues.push({ path: `${partPath}.text`, message: 'must be a string' });
+      }
+    });
+  } else if (typeof value.content !== 'string' && typeof value.text !== 'string') {
+    issues.push({ path, message: 'must have a "parts" array (or a "content" string)' });
+    return null;
+  }
+
+  const content = extractText(value as MessageLike);
+  if (content.length > limits.maxMessageChars) {
+    issues.push({ path, message: `text is ${content.length} characters, the limit is ${limits.maxMessageChars}` });
+  }
+  return { role, content };
+}
+
+/**
+ * Validate a parsed request body
+ * Throws BadRequestError listing every issue found
+ */
+export function validateChatRequest(body: unknown, limits: ChatRequestLimits = getChatRequestLimits()): ChatRequest {
+  const issues: ValidationIssue[] = [];
+
+  let message: unknown;
+  let path: string;
+  if (isObject(body) && body.message !== undefined) {
+    message = body.message;
+    path = 'message';
+  } else if (isObject(body) && Array.isArray(body.messages) && body.messages.length > 0) {
+    message = body.messages[body.messages.length - 1];
+    path = `messages[${body.messages.length - 1}]`;
+  } else {
+    throw new BadRequestError('Invalid chat request', [{ path: 'message', message: 'must be the new user message' }]);
+  }
+
+  const persona = isObject(body) ? body.persona : undefined;
+  if (persona !== undefined && (typeof persona !== 'string' || !PERSONA_PATTERN.test(persona))) {
+    issues.push({ path: 'persona', message: 'must be a persona name (lowercase letters, digits, - or _)' });
+  }
+
+  const turn = validateMessage(message, path, limits, issues);
+  if (turn && turn.role !== 'user') {
+    issues.push({ path: `${path}.role`, message: 'the message must be from the user' });
+  } else if (turn && turn.content.trim().length === 0) {
+    issues.push({ path, message: 'message content is required and cannot be empty' });
+  }
+
+  if (issues.length > 0 || !turn) {
+    throw new BadRequestError('Invalid chat request', issues);
+  }
+
+  const id = (message as Record<string, unknown>).id;
+  return {
+    messageId: typeof id === 'string' && MESSAGE_ID_PATTERN.test(id) ? id : undefined,
+    query: turn.content.trim(),
+    persona: typeof persona === 'string' ? persona : undefined,
+  };
+}
+
+/**
+ * Read, size-check and validate a chat request
+ * Content-Length is checked before reading so oversized bodies are rejected cheaply
+ */
+export async function parseChatRequest(req: Request, limits: ChatRequestLimits = getChatRequestLimits()): Promise<ChatRequest> {
+  const tooLarge = (bytes: number) =>
+    new BadRequestError('Request body is too large', [
+      { path: '', message: `body is ${bytes} bytes, the limit is ${limits.maxPayloadBytes}` },
+    ]);
+
+  const declared = Number(req.headers.get('content-length'));
+  if (declared > limits.maxPayloadBytes) throw tooLarge(declared);
+
+  const raw = await req.text();
+  const bytes = new TextEncoder().encode(raw).length;
+  if (bytes > limits.maxPayloadBytes) throw tooLarge(bytes);
+
+  let body: unknown;
+  try {
+    body = JSON.parse(raw);
+  } catch {
+    throw new BadRequestError('Request body must be valid JSON');
+  }
+  return validateChatRequest(body, limits);
+}
@@ -0,0 +1,174 @@
+import { estimateTokens } from './tokens';
+import { envNumber } from './env';
+import type { Document } from './vector-store';
+
+export interface ChunkOptions {
+  /** Token budget per chunk */
+  maxTokens: number;
+  /** Tokens of trailing context repeated at the start of the next chunk */
+  overlapTokens: number;
+}
+
+/**
+ * A slice of a document that gets its own embedding
+ * Chunk ids are `{parentId}#{index}`
+ */
+export interface DocumentChunk {
+  id: string;
+  parentId: string;
+  index: number;
+  content: string;
+  metadata?: Record<string, unknown>;
+}
+
+interface Unit {
+  text: string;
+  tokens: number;
+  /** Set on the first unit of a paragraph: tokens in the whole paragraph */
+  paragraphTokens?: number;
+}
+
+/**
+ * Chunking settings from env (CHUNK_MAX_TOKENS, CHUNK_OVERLAP_TOKENS)
+ * CHUNK_OVERLAP_TOKENS=0 turns overlap off; it's capped at half a chunk.
+ */
+export function getChunkOptions(): ChunkOptions {
+  const maxTokens = envNumber('CHUNK_MAX_TOKENS', 256);
+  if (maxTokens <= 0) {
+    throw new Error(`Invalid CHUNK_MAX_TOKENS: must be a positive number (got ${maxTokens})`);
+  }
+  const overlapTokens = Math.max(0, envNumber('CHUNK_OVERLAP_TOKENS', 40));
+  return { maxTokens, overlapTokens: Math.min(overlapTokens, Math.floor(maxTokens / 2)) };
+}
+
+export function getChunkId(parentId: string, index: number): string {
+  return `${parentId}#${index}`;
+}
+
+function splitSentences(paragraph: string): string[] {
+  return paragraph
+    .split(/(?<=[.!?])\s+(?=["'(\[]?[A-Z0-9])/)
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Hard-split a sentence that alone exceeds the budget, on word boundaries
+ */
+function splitLongSentence(sentence: string, maxTokens: number): string[] {
+  const words = sentence.split(/\s+/);
+  const pieces: string[] = [];
+  let current: string[] = [];
+
+  for (const word of words) {
+    if (current.length > 0 && estimateTokens([...current, word].join(' ')) > maxTokens) {
+      pieces.push(current.join(' '));
+      current = [];
+    }
+    current.push(word);
+  }
+  if (current.length > 0) pieces.push(current.join(' '));
+  return pieces;
+}
+
+/**
+ * Break content into sentence units, remembering where paragraphs start
+ */
+function toUnits(content: string, maxTokens: number): Unit[] {
+  const units: Unit[] = [];
+  const paragraphs = content.split(/\n\s*\n/).map((p) => p.trim()).filter(Boolean);
+
+  for (const paragraph of paragraphs) {
+    const sentences = splitSentences(paragraph.replace(/\s*\n\s*/g, ' '))
+      .flatMap((s) => (estimateTokens(s) > maxTokens ? splitLongSentence(s, maxTokens) : [s]));
+
+    sentences.forEach((text, i) => {
+      units.push({
+        text,
+        tokens: estimateTokens(text),
+        paragraphTokens: i === 0 ? estimateTokens(paragraph) : undefined,
+      });
+    });
+  }
+  return units;
+}
+
+function joinUnits(units: Unit[]): string {
+  return units
+    .map((unit, i) => (i === 0 ? unit.text : `${unit.paragraphTokens !== undefined ? '\n\n' : ' '}${unit.text}`))
+    .join('');
+}
+
+/**
+ * Split a document into overlapping, sentence/paragraph-aware chunks
+ *
+ * Short documents become a single chunk with the original content.
+ * Longer ones are packed sentence by sentence up to `maxTokens`, breaking at a
+ * paragraph boundary when the next paragraph won't fit and the chunk is at
+ * least half full. Each new chunk repeats up to `overlapTokens` of trailing
+ * sentences from the previous one so context isn't lost at the seams.
+ */
+export function chunkDocument(doc: Document, options: ChunkOptions = getChunkOptions()): DocumentChunk[] {
+  const content = doc.content.trim();
+  const makeChunk = (text: string, index: number): DocumentChunk => ({
+    id: getChunkId(doc.id, index),
+    parentId: doc.id,
+    index,
+    content: text,
+    metadata: doc.metadata,
+  });
+
+  if (estimateTokens(content) <= options.maxTokens) {
+    return [makeChunk(content, 0)];
+  }
+
+  const chunks: DocumentChunk[] = [];
+  let current: Unit[] = [];
+  let currentTokens = 0;
+
+  const flush = () => {
+    chunks.push(makeChunk(joinUnits(current), chunks.length));
+
+    // Carry trailing sentences forward as overlap
+    const overlap: Unit[] = [];
+    let overlapTokens = 0;
+    for (let i = current.length - 1; i > 0; i--) {
+      if (overlapTokens + current[i].tokens > options.overlapTokens) break;
+      overlap.unshift(current[i]);
+      overlapTokens += current[i].tokens;
+    }
+    current = overlap;
+    currentTokens = overlapTokens;
+  };
+
+  for (const unit of toUnits(content, options.maxTokens)) {
+    const paragraphWontFit =
+      unit.paragraphTokens !== undefined &&
+      currentTokens + unit.paragraphTokens > options.maxTokens &&
+      currentTokens >= options.maxTokens / 2;
+
+    if (current.length > 0 && (currentTokens + unit.tokens > options.maxTokens || paragraphWontFit)) {
+      flush();
+      // Drop the overlap if it leaves no room for this unit
+      if (currentTokens + unit.tokens > options.maxTokens) {
+        current = [];
+        currentTokens = 0;
+      }
+    }
+    current.push(unit);
+    currentTokens += unit.tokens;
+  }
+
+  if (current.length > 0) {
+    chunks.push(makeChunk(joinUnits(current), chunks.length));
+  }
+
+  return chunks;
+}
+
+/**
+ * Chunk every document, preserving order
+ */
+export function chunkDocuments(docs: Document[], options: ChunkOptions = getChunkOptions()): DocumentChunk[] {
+  return docs.flatMap((doc) => chunkDocument(doc, options));
+}
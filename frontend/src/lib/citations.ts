@@ -0,0 +1,63 @@
+import type { UIMessage } from 'ai';
+import type { SearchResult } from './vector-store';
+import type { ChatDebugInfo } from './chat-debug';
+
+/**
+ * A retrieved chunk the answer was grounded on
+ * Sent to the client as a `data-citations` part ahead of the answer text
+ */
+export interface Citation {
+  /** Parent document id */
+  id: string;
+  chunkId: string;
+  title: string;
+  /** First ~200 characters of the chunk */
+  snippet: string;
+  /** Linked from the chip when the document has `url` metadata */
+  url?: string;
+  score: number;
+  scores: SearchResult['scores'];
+  metadata: Record<string, unknown>;
+}
+
+/**
+ * Data parts the chat route streams alongside text (AI SDK `data-*` parts)
+ */
+export type ChatDataParts = {
+  citations: Citation[];
+  /** Debug mode only (see lib/chat-debug.ts) */
+  debug: ChatDebugInfo;
+};
+
+export type ChatMessage = UIMessage<unknown, ChatDataParts>;
+
+const SNIPPET_LENGTH = 200;
+
+/**
+ * Short label for a chunk: `title` metadata, else a leading "Title: ..." prefix, else the id
+ */
+export function citationTitle(result: SearchResult): string {
+  const { metadata, content } = result.document;
+  if (typeof metadata?.title === 'string' && metadata.title) {
+    return metadata.title;
+  }
+  const prefix = content.match(/^([^:\n]{3,60}):/);
+  return prefix ? prefix[1].trim() : result.document.id;
+}
+
+export function toCitations(results: SearchResult[]): Citation[] {
+  return results.map((result) => {
+    const content = result.document.content.replace(/\s+/g, ' ').trim();
+    const url = result.document.metadata?.url;
+    return {
+      id: result.document.id,
+      chunkId: result.chunkId,
+      title: citationTitle(result),
+      snippet: content.length > SNIPPET_LENGTH ? `${content.slice(0, SNIPPET_LENGTH)}…` : content,
+      url: typeof url === 'string' ? url : undefined,
+      score: result.score,
+      scores: result.scores,
+      metadata: result.document.metadata || {},
+    };
+  });
+}
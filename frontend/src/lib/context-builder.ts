@@ -0,0 +1,194 @@
+import type { SearchResult } from './vector-store';
+import type { ChatTurn } from './chat-request';
+import { envNumber } from './env';
+import { estimateTokens } from './tokens';
+
+/**
+ * Token-budgeted prompt assembly for /api/chat
+ *
+ * The prompt (system instructions + retrieved context + history) is kept under
+ * one budget instead of a fixed message count:
+ * 1. history: the new message always goes in; earlier turns are added newest
+ *    first while they fit CONTEXT_HISTORY_TOKENS (the last one that doesn't fit
+ *    is truncated). Turns that fall out are folded into the conversation's
+ *    rolling summary (lib/conversation-summary.ts), which shares the history budget.
+ * 2. documents: whatever is left after instructions and history; the
+ *    lowest-scoring chunks are dropped first, and a single chunk that is still
+ *    too long is truncated.
+ *
+ * CONTEXT_TOKEN_BUDGET (8000) - whole prompt
+ * CONTEXT_HISTORY_TOKENS (2000) - history + summary, taken from the budget first
+ * CONTEXT_SUMMARY_TOKENS (300) - rolling summary length
+ *
+ * Token counts are the usual ~4 characters per token estimate.
+ */
+export interface ContextBudget {
+  totalTokens: number;
+  historyTokens: number;
+  summaryTokens: number;
+}
+
+/** A chat turn with the id of the stored message it came from */
+export interface HistoryTurn extends ChatTurn {
+  id: string;
+}
+
+export interface HistoryWindow {
+  /** Turns sent to the model, oldest first, ending with the new message */
+  turns: ChatTurn[];
+  /** Older turns that no longer fit and aren't in the summary yet, oldest first */
+  overflow: HistoryTurn[];
+  /** True when the oldest turn in `turns` was cut short */
+  truncated: boolean;
+}
+
+/** How chunks and the system prompt are rendered (see lib/personas.ts) */
+export interface PromptRenderer {
+  /** One chunk of the context block */
+  document: (result: SearchResult) => string;
+  /** System prompt around the joined context ('' when no chunk fits) */
+  system: (context: string) => string;
+}
+
+export interface AssembledContext {
+  system: string;
+  /** Chunks that made it into the prompt, in retrieval order */
+  documents: SearchResult[];
+  /** Chunk ids dropped to stay within the budget (lowest score first) */
+  droppedDocuments: string[];
+  /** True when the last remaining chunk had to be cut short */
+  truncatedDocument: boolean;
+  tokens: { system: number; documents: number; history: number; total: number };
+}
+
+// Below this a truncated turn or chunk is more confusing than useful
+const MIN_PARTIAL_TOKENS = 50;
+
+export function getContextBudget(): ContextBudget {
+  return {
+    totalTokens: envNumber('CONTEXT_TOKEN_BUDGET', 8000),
+    historyTokens: envNumber('CONTEXT_HISTORY_TOKENS', 2000),
+    summaryTokens: envNumber('CONTEXT_SUMMARY_TOKENS', 300),
+  };
+}
+
+/**
+ * Cut text to roughly `tokens` tokens, marking the cut
+ */
+export function truncateToTokens(text: string, tokens: number): string {
+  const maxChars = Math.max(0, tokens * 4 - 1);
+  return text.length <= maxChars + 1 ? text : `${text.slice(0, maxChars).trimEnd()}…`;
+}
+
+/**
+ * Pick the history that fits the budget
+ *
+ * `turns` is the whole conversation ending with the new message (oldest first),
+ * including turns without text - they're skipped here, after the summary
+ * cut-off is found, so a cut-off on such a turn still matches.
+ * Turns up to `summarizedThrough` (a message id) are already covered by the
+ * summary and never sent again; `summary` is the current summary text, which
+ * counts against the history budget.
+ */
+export function selectHistory(
+  turns: HistoryTurn[],
+  summary: string | undefined,
+  summarizedThrough: string | undefined,
+  budget: ContextBudget = getContextBudget()
+): HistoryWindow {
+  const covered = summarizedThrough ? turns.findIndex((turn) => turn.id === summarizedThrough) : -1;
+  // The new message is always sent, even if a (stale) summary claims to cover it
+  const candidates = turns
+    .slice(Math.min(covered + 1, turns.length - 1))
+    .filter((turn, i, rest) => turn.content.trim().length > 0 || i === rest.length - 1);
+  if (candidates.length === 0) {
+    return { turns: [], overflow: [], truncated: false };
+  }
+
+  const latest = candidates[candidates.length - 1];
+  const selected: ChatTurn[] = [{ role: latest.role, content: latest.content }];
+  let remaining = budget.historyTokens - estimateTokens(summary ?? '') - estimateTokens(latest.content);
+  let truncated = false;
+  let start = candidates.length - 1;
+
+  for (let i = candidates.length - 2; i >= 0; i--) {
+    const turn = candidates[i];
+    const tokens = estimateTokens(turn.content);
+    if (tokens <= remaining) {
+      selected.unshift({ role: turn.role, content: turn.content });
+      remaining -= tokens;
+      start = i;
+      continue;
+    }
+    if (remaining >= MIN_PARTIAL_TOKENS) {
+      // Keep the start of the turn - it usually carries the question or the gist
+      selected.unshift({ role: turn.role, content: truncateToTokens(turn.content, remaining) });
+      truncated = true;
+      start = i;
+    }
+    break;
+  }
+
+  // A truncated turn still goes into the summary so nothing is lost for good
+  const overflowEnd = truncated ? start + 1 : start;
+  return { turns: selected, overflow: candidates.slice(0, overflowEnd), truncated };
+}
+
+/**
+ * Fit retrieved chunks into what's left of the budget and render the system prompt
+ *
+ * Chunks are sized as `renderer.document` formats them, joined by blank lines.
+ */
+export function assembleContext(
+  documents: SearchResult[],
+  history: ChatTurn[],
+  renderer: PromptRenderer,
+  budget: ContextBudget = getContextBudget()
+): AssembledContext {
+  const historyTokens = history.reduce((sum, turn) => sum + estimateTokens(turn.content), 0);
+  // Measure the instructions with a non-empty context so the with-context wording is counted
+  const instructionTokens = estimateTokens(renderer.system('…'));
+  const available = budget.totalTokens - instructionTokens - historyTokens;
+
+  // Drop the lowest-scoring chunks until the rest fit (the order sent to the model is kept)
+  const kept = [...documents];
+  const droppedDocuments: string[] = [];
+  const size = (results: SearchResult[]) =>
+    results.reduce((sum, result) => sum + estimateTokens(renderer.document(result)), 0) + Math.max(0, results.length - 1);
+  while (kept.length > 1 && size(kept) > available) {
+    const lowest = kept.reduce((min, result) => (result.score < min.score ? result : min));
+    kept.splice(kept.indexOf(lowest), 1);
+    droppedDocuments.push(lowest.chunkId);
+  }
+
+  let truncatedDocument = false;
+  if (kept.length === 1 && size(kept) > available) {
+    // The chunk's template (title line etc.) takes its share of what's left
+    const overhead = estimateTokens(renderer.document(kept[0])) - estimateTokens(kept[0].document.content);
+    if (available - overhead >= MIN_PARTIAL_TOKENS) {
+      const content = truncateToTokens(kept[0].document.content, available - overhead);
+      kept[0] = { ...kept[0], document: { ...kept[0].document, content } };
+      truncatedDocument = true;
+    } else {
+      droppedDocuments.push(kept[0].chunkId);
+      kept.pop();
+    }
+  }
+
+  const context = kept.map(renderer.document).join('\n\n');
+  const system = renderer.system(context);
+  const systemTokens = estimateTokens(system);
+
+  return {
+    system,
+    documents: kept,
+    droppedDocuments,
+    truncatedDocument,
+    tokens: {
+      system: systemTokens,
+      documents: estimateTokens(context),
+      history: historyTokens,
+      total: systemTokens + historyTokens,
+    },
+  };
+}
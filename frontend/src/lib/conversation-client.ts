@@ -0,0 +1,29 @@
+import type { ChatMessage } from './citations';
+
+/**
+ * Browser side of the server-side conversation (see /api/conversation)
+ * The conversation id lives in an HttpOnly cookie, so these calls only rely on it being sent
+ */
+async function request(init?: RequestInit): Promise<Response> {
+  const response = await fetch('/api/conversation', { credentials: 'same-origin', ...init });
+  if (!response.ok) {
+    // Same shape useChat gives errors, so the UI can parse the body
+    throw new Error(await response.text());
+  }
+  return response;
+}
+
+/**
+ * Messages of the current conversation (empty when there is none or it expired)
+ */
+export async function fetchConversation(): Promise<ChatMessage[]> {
+  const { messages } = await (await request()).json();
+  return Array.isArray(messages) ? messages : [];
+}
+
+/**
+ * Forget the current conversation; the next message starts a new one
+ */
+export async function resetConversation(): Promise<void> {
+  await request({ method: 'DELETE' });
+}
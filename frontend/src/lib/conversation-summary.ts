@@ -0,0 +1,82 @@
+import { generateText } from 'ai';
+import { estimateTokens } from './tokens';
+import { getChatModel } from './chat-models';
+import { truncateToTokens, type HistoryTurn } from './context-builder';
+
+/**
+ * Rolling conversation summary
+ *
+ * Turns that drop out of the history budget (lib/context-builder.ts) are folded
+ * into a short summary stored with the conversation, so a long chat keeps its
+ * earlier facts without resending every turn. One LLM call per update, only
+ * when turns actually fell out of the window.
+ *
+ * CONTEXT_SUMMARY=llm (default) - summarize dropped turns
+ * CONTEXT_SUMMARY=off - dropped turns are simply forgotten
+ * CONTEXT_SUMMARY_MODEL - tried before the CHAT_MODELS chain (lib/chat-models.ts)
+ */
+export interface ConversationSummary {
+  text: string;
+  /** Id of the last message the summary covers */
+  throughMessageId: string;
+  updatedAt: number;
+}
+
+export function isSummaryEnabled(): boolean {
+  return process.env.CONTEXT_SUMMARY !== 'off';
+}
+
+function formatTurns(turns: HistoryTurn[]): string {
+  return turns
+    .map(({ role, content }) => `${role === 'user' ? 'User' : 'Assistant'}: ${content.replace(/\s+/g, ' ').trim()}`)
+    .join('\n');
+}
+
+/**
+ * Fold `turns` (oldest first) into `previous`
+ *
+ * Never throws: if the model call fails the previous summary is returned
+ * unchanged, and the turns are retried on the next request.
+ */
+export async function updateSummary(
+  previous: ConversationSummary | undefined,
+  turns: HistoryTurn[],
+  maxTokens: number
+): Promise<ConversationSummary | undefined> {
+  if (turns.length === 0 || !isSummaryEnabled()) {
+    return previous;
+  }
+
+  const maxWords = Math.max(20, Math.floor(maxTokens * 0.75));
+  const prompt = `You maintain a running summary of a chat between a visitor and a portfolio assistant.
+Update the summary with the new turns. Keep names, projects, technologies and anything the visitor said about themselves or asked to remember; drop small talk.
+Write plain prose under ${maxWords} words. Reply with only the summary.
+
+${previous ? `Current summary:\n${previous.text}\n\n` : ''}New turns:
+${formatTurns(turns)}`;
+
+  try {
+    const { model } = getChatModel(process.env.CONTEXT_SUMMARY_MODEL, { applySettings: false });
+    const { text } = await generateText({
+      model,
+      temperature: 0,
+      maxRetries: 0,
+      prompt,
+    });
+
+    const summary = text.trim();
+    if (!summary) {
+      throw new Error('Empty summary reply');
+    }
+
+    console.log(`Summarized ${turns.length} turns into the conversation summary (${estimateTokens(summary)} tokens)`);
+    return {
+      text: truncateToTokens(summary, maxTokens),
+      throughMessageId: turns[turns.length - 1].id,
+      updatedAt: Date.now(),
+    };
+  } catch (error) {
+    console.warn('Conversation summary failed, keeping the previous one:', error instanceof Error ? error.message : error);
+    return previous;
+  }
+}
@@ -0,0 +1,130 @@
+import { getStore } from './storage';
+import { envNumber } from './env';
+import type { ChatMessage } from './citations';
+import type { ConversationSummary } from './conversation-summary';
+
+/**
+ * Server-side conversation history
+ *
+ * The browser only holds an opaque id in an HttpOnly cookie; the messages
+ * live in the store under `conversation:{id}` and expire CONVERSATION_TTL_SECONDS
+ * after the last message. /api/chat builds the model's history from here, so
+ * a client can't inject turns, and the page restores the conversation on reload.
+ *
+ * CONVERSATION_TTL_SECONDS (604800 = 7 days)
+ * CONVERSATION_MAX_MESSAGES (50) - older messages are dropped when saving
+ */
+export interface Conversation {
+  id: string;
+  /** UI messages as the client renders them (text + citations) */
+  messages: ChatMessage[];
+  /** Rolling summary of turns that no longer fit the history budget */
+  summary?: ConversationSummary;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface ConversationSettings {
+  ttlSeconds: number;
+  maxMessages: number;
+}
+
+export const CONVERSATION_COOKIE = 'conversation_id';
+
+const ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+// Debug traces carry the whole system prompt - never worth keeping
+const TRANSIENT_PART_TYPES = new Set(['data-debug']);
+
+export function getConversationSettings(): ConversationSettings {
+  return {
+    ttlSeconds: envNumber('CONVERSATION_TTL_SECONDS', 604800),
+    maxMessages: envNumber('CONVERSATION_MAX_MESSAGES', 50),
+  };
+}
+
+function conversationKey(id: string): string {
+  return `conversation:${id}`;
+}
+
+/**
+ * Conversation id from the request cookie; malformed ids are ignored
+ */
+export function getConversationId(req: Request): string | null {
+  const cookies = req.headers.get('cookie');
+  if (!cookies) return null;
+
+  for (const cookie of cookies.split(';')) {
+    const [name, ...rest] = cookie.trim().split('=');
+    if (name === CONVERSATION_COOKIE) {
+      const id = decodeURIComponent(rest.join('='));
+      return ID_PATTERN.test(id) ? id : null;
+    }
+  }
+  return null;
+}
+
+/**
+ * Set-Cookie value for a conversation id; null clears the cookie
+ * Scoped to /api - only the chat and conversation routes read it
+ */
+export function conversationCookie(id: string | null, settings: ConversationSettings = getConversationSettings()): string {
+  const attributes = [
+    `${CONVERSATION_COOKIE}=${id ?? ''}`,
+    'Path=/api',
+    `Max-Age=${id ? settings.ttlSeconds : 0}`,
+    'HttpOnly',
+    'SameSite=Lax',
+  ];
+  if (process.env.NODE_ENV === 'production') {
+    attributes.push('Secure');
+  }
+  return attributes.join('; ');
+}
+
+export function createConversation(): Conversation {
+  const now = Date.now();
+  return { id: crypto.randomUUID(), messages: [], createdAt: now, updatedAt: now };
+}
+
+export async function loadConversation(id: string): Promise<Conversation | null> {
+  const stored = await getStore().get<Conversation | string>(conversationKey(id));
+  if (!stored) return null;
+  try {
+    const conversation = typeof stored === 'string' ? (JSON.parse(stored) as Conversation) : stored;
+    return Array.isArray(conversation.messages) ? conversation : null;
+  } catch (error) {
+    console.error(`Failed to parse conversation ${id}`, error);
+    return null;
+  }
+}
+
+/**
+ * Conversation for the request's cookie, or a new one when there is none (or it expired)
+ */
+export async function getOrCreateConversation(req: Request): Promise<{ conversation: Conversation; isNew: boolean }> {
+  const id = getConversationId(req);
+  const existing = id ? await loadConversation(id) : null;
+  return existing ? { conversation: existing, isNew: false } : { conversation: createConversation(), isNew: true };
+}
+
+/**
+ * Save the latest messages and restart the TTL
+ */
+export async function saveConversation(
+  conversation: Conversation,
+  messages: ChatMessage[],
+  settings: ConversationSettings = getConversationSettings()
+): Promise<void> {
+  const kept = messages.slice(-settings.maxMessages).map((message) => ({
+    ...message,
+    parts: message.parts.filter((part) => !TRANSIENT_PART_TYPES.has(part.type)),
+  }));
+
+  const updated: Conversation = { ...conversation, messages: kept, updatedAt: Date.now() };
+  await getStore().set(conversationKey(conversation.id), JSON.stringify(updated), { ex: settings.ttlSeconds });
+}
+
+export async function deleteConversation(id: string): Promise<void> {
+  await getStore().del(conversationKey(id));
+}
@@ -0,0 +1,269 @@
+import { FreeTierDisabledError, InvalidApiKeyError, RateLimitError, UpstreamError } from '../errors';
+import { reserveQuota } from '../quota';
+import { callUpstream } from '../resilience';
+import { estimateTokens } from '../tokens';
+import type { EmbeddingProvider } from './types';
+
+// batchEmbedContents accepts at most 100 requests per call
+const MAX_BATCH_SIZE = 100;
+
+/**
+ * Google Gemini Embedding API provider
+ *
+ * Direct API calls (no gateway costs)
+ * Free tier: 15 RPM, 1,500 requests/day
+ * Uses batch endpoint for efficiency
+ *
+ * Model: gemini-embedding-001 (recommended, has free tier)
+ * Note: text-embedding-004 deprecated Jan 14, 2026
+ *
+ * Every HTTP call goes through `callUpstream` (retries + circuit breaker)
+ * and reserves quota per attempt.
+ */
+export class GeminiEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'gemini' as const;
+  readonly model: string;
+  readonly similarityThreshold = 0.5;
+
+  constructor(model: string = process.env.GEMINI_EMBEDDING_MODEL || 'gemini-embedding-001') {
+    this.model = model;
+  }
+
+  private getApiKey(): string {
+    const apiKey = process.env.GOOGLE_GENERATIVE_AI_API_KEY;
+    if (!apiKey) {
+      throw new InvalidApiKeyError('GOOGLE_GENERATIVE_AI_API_KEY is not set.');
+    }
+    return apiKey;
+  }
+
+  private quotaNotEnabledError(): FreeTierDisabledError {
+    return new FreeTierDisabledError(
+      `Free tier quota not enabled for ${this.model}. ` +
+      'To fix this:\n' +
+      '1. Go to: https://console.cloud.google.com/apis/library/generativelanguage.googleapis.com\n' +
+      '2. Click "Enable" to enable the Generative Language API\n' +
+      '3. Wait a few minutes for the API to activate\n' +
+      '4. Try your request again\n\n' +
+      'Note: The free tier allows 1,500 embedding requests per day.'
+    );
+  }
+
+  /**
+   * Detect "limit: 0" errors (free tier not enabled in Google Cloud)
+   */
+  private isFreeTierDisabled(
+    status: number,
+    errorData: { error?: { details?: Array<{ '@type'?: string; violations?: Array<{ quotaMetric?: string }> }> } },
+    errorMessage: string
+  ): boolean {
+    if (!errorMessage.includes('limit: 0')) return false;
+    const quotaDetails = errorData.error?.details?.find(
+      (d) => d['@type'] === 'type.googleapis.com/google.rpc.QuotaFailure'
+    );
+    const hasZeroLimit = quotaDetails?.violations?.some((v) => v.quotaMetric?.includes('free_tier')) ?? false;
+    return hasZeroLimit || status === 429;
+  }
+
+  /**
+   * 403, or 400 "API key not valid"
+   */
+  private isKeyRejected(status: number, message: string): boolean {
+    return status === 401 || status === 403 || (status === 400 && /api key/i.test(message));
+  }
+
+  /**
+   * Generate embedding for a single text
+   */
+  async embed(text: string): Promise<number[]> {
+    return callUpstream('embedding:gemini', () => this.requestEmbedding(text));
+  }
+
+  private async requestEmbedding(text: string): Promise<number[]> {
+    const apiKey = this.getApiKey();
+    await reserveQuota('embedding', 1, estimateTokens(text));
+
+    try {
+      const response = await fetch(
+        `https://generativelanguage.googleapis.com/v1beta/models/${this.model}:embedContent?key=${apiKey}`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            content: {
+              parts: [
+                {
+                  text
+                }
+              ]
+            }
+          }),
+        }
+      );
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        const errorMessage = errorData.error?.message || response.statusText;
+
+        const hasZeroLimit = this.isFreeTierDisabled(response.status, errorData, errorMessage);
+
+        console.error('Embedding API Error:', {
+          status: response.status,
+          statusText: response.statusText,
+          error: errorData.error,
+          url: `models/${this.model}:embedContent`,
+          hasZeroLimit
+        });
+
+        if (hasZeroLimit) {
+          throw this.quotaNotEnabledError();
+        }
+
+        if (response.status === 429) {
+          const retryAfter = response.headers.get('retry-after');
+          throw new RateLimitError(
+            'Gemini API rate limit exceeded. Please try again later.',
+            retryAfter ? parseInt(retryAfter, 10) : 60
+          );
+        }
+
+        if (this.isKeyRejected(response.status, errorMessage)) {
+          throw new InvalidApiKeyError(`Gemini API rejected the API key (${response.status}). Check the key and its API restrictions.`);
+        }
+
+        throw new UpstreamError(`Embedding failed: ${errorMessage}`, response.status);
+      }
+
+      const data = await response.json();
+
+      if (!data.embedding || !data.embedding.values || !Array.isArray(data.embedding.values)) {
+        console.error('Invalid embedding response structure:', data);
+        throw new Error('Invalid embedding response: missing embedding.values array');
+      }
+
+      return data.embedding.values;
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        throw error;
+      }
+
+      const err = error as { message?: string };
+      console.error('Embedding generation error:', error);
+      throw new Error(
+        `Failed to generate embedding: ${err?.message || 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Generate embeddings using Google's Batch REST API
+   *
+   * CRITICAL: Uses 1 API call per 100 texts instead of 100 individual calls
+   * This prevents hitting the 15 RPM limit during initialization
+   */
+  async embedMany(texts: string[]): Promise<number[][]> {
+    const results: number[][] = [];
+    // Sequential on purpose - parallel batches would burst past the RPM limit
+    for (let start = 0; start < texts.length; start += MAX_BATCH_SIZE) {
+      results.push(...(await this.embedBatch(texts.slice(start, start + MAX_BATCH_SIZE))));
+    }
+    return results;
+  }
+
+  private async embedBatch(texts: string[]): Promise<number[][]> {
+    return callUpstream('embedding:gemini', () => this.requestBatch(texts));
+  }
+
+  private async requestBatch(texts: string[]): Promise<number[][]> {
+    const apiKey = this.getApiKey();
+    await reserveQuota('embedding', 1, estimateTokens(texts.join(' ')));
+
+    try {
+      const response = await fetch(
+        `https://generativelanguage.googleapis.com/v1beta/models/${this.model}:batchEmbedContents?key=${apiKey}`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            requests: texts.map(t => ({
+              // Batch endpoint requires model in EACH request object (not just URL)
+              model: `models/${this.model}`,
+              content: {
+                parts: [{ text: t }]
+              }
+            }))
+          }),
+        }
+      );
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        const errorMessage = errorData.error?.message || response.statusText;
+
+        const hasZeroLimit = this.isFreeTierDisabled(response.status, errorData, errorMessage);
+
+        console.error('Batch Embedding API Error:', {
+          status: response.status,
+          statusText: response.statusText,
+          error: errorData.error,
+          requestCount: texts.length,
+          hasZeroLimit
+        });
+
+        // Before the generic 429 - a disabled free tier won't recover by retrying
+        if (hasZeroLimit) {
+          throw this.quotaNotEnabledError();
+        }
+
+        if (response.status === 429) {
+          const retryAfter = response.headers.get('retry-after');
+          throw new RateLimitError(
+            'Gemini API rate limit exceeded. Please try again later.',
+            retryAfter ? parseInt(retryAfter, 10) : 60
+          );
+        }
+
+        if (this.isKeyRejected(response.status, errorMessage)) {
+          throw new InvalidApiKeyError(`Gemini API rejected the API key (${response.status}). Check the key and its API restrictions.`);
+        }
+
+        throw new UpstreamError(
+          `Batch embedding failed: ${response.status} ${errorMessage}`,
+          response.status
+        );
+      }
+
+      const data = await response.json();
+
+      if (!data.embeddings || !Array.isArray(data.embeddings)) {
+        console.error('Invalid batch embedding response structure:', data);
+        throw new Error('Invalid batch embedding response: missing embeddings array');
+      }
+
+      const results = data.embeddings.map((e: { values?: number[] }, index: number) => {
+        if (!e || !e.values || !Array.isArray(e.values)) {
+          console.error(`Invalid embedding at index ${index}:`, e);
+          throw new Error(`Invalid embedding at index ${index}: missing values array`);
+        }
+        return e.values;
+      });
+
+      // A short reply can't be matched back to its texts - storing it would misplace vectors
+      if (results.length !== texts.length) {
+        throw new Error(`Invalid batch embedding response: expected ${texts.length} embeddings but got ${results.length}`);
+      }
+
+      return results;
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        throw error;
+      }
+
+      const err = error as { message?: string };
+      console.error('Batch embedding error:', error);
+      throw new Error(
+        `Failed to generate embeddings: ${err?.message || 'Unknown error'}`
+      );
+    }
+  }
+}
@@ -0,0 +1,58 @@
+import { GeminiEmbeddingProvider } from './gemini';
+import { LocalEmbeddingProvider } from './local';
+import { OpenAIEmbeddingProvider } from './openai';
+import type { EmbeddingProvider, EmbeddingProviderName } from './types';
+
+export type { EmbeddingProvider, EmbeddingProviderName } from './types';
+export { GeminiEmbeddingProvider } from './gemini';
+export { LocalEmbeddingProvider } from './local';
+export { OpenAIEmbeddingProvider } from './openai';
+
+let provider: EmbeddingProvider | null = null;
+
+/**
+ * Create an embedding provider
+ *
+ * EMBEDDING_PROVIDER=gemini (default) - GEMINI_EMBEDDING_MODEL
+ * EMBEDDING_PROVIDER=openai - OPENAI_EMBEDDING_MODEL, OPENAI_BASE_URL for compatible servers
+ * EMBEDDING_PROVIDER=local - deterministic offline vectors (LOCAL_EMBEDDING_DIMENSIONS)
+ */
+export function createEmbeddingProvider(name?: EmbeddingProviderName): EmbeddingProvider {
+  const selected = name || (process.env.EMBEDDING_PROVIDER as EmbeddingProviderName | undefined) || 'gemini';
+
+  switch (selected) {
+    case 'gemini':
+      return new GeminiEmbeddingProvider();
+    case 'openai':
+      return new OpenAIEmbeddingProvider();
+    case 'local':
+      return new LocalEmbeddingProvider();
+    default:
+      throw new Error(`Unknown EMBEDDING_PROVIDER "${selected}". Expected gemini, openai or local.`);
+  }
+}
+
+/**
+ * Get the shared embedding provider (created on first use)
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (!provider) {
+    provider = createEmbeddingProvider();
+  }
+  return provider;
+}
+
+/**
+ * Replace the shared embedding provider (e.g. a LocalEmbeddingProvider in tests)
+ */
+export function setEmbeddingProvider(next: EmbeddingProvider): void {
+  provider = next;
+}
+
+/**
+ * Identifier stored alongside vectors, e.g. "gemini:gemini-embedding-001"
+ * Vectors from different providers/models are not comparable.
+ */
+export function getEmbeddingModelId(embeddingProvider: EmbeddingProvider = getEmbeddingProvider()): string {
+  return `${embeddingProvider.name}:${embeddingProvider.model}`;
+}
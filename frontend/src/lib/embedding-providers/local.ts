@@ -0,0 +1,66 @@
+import { tokenize } from '../tokens';
+import type { EmbeddingProvider } from './types';
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Deterministic offline embeddings (hashed bag-of-words)
+ *
+ * Unigrams and bigrams are hashed into a fixed number of dimensions with a
+ * sign bit to reduce collision bias, weighted by sublinear term frequency
+ * and L2-normalized. No network, no API key - for CI and air-gapped machines.
+ * Captures lexical overlap only, so retrieval quality is below real models.
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'local' as const;
+  readonly model: string;
+  // Sparse lexical vectors: any shared term is a weak but real signal
+  readonly similarityThreshold = 0.05;
+  private readonly dimensions: number;
+
+  constructor(dimensions: number = Number(process.env.LOCAL_EMBEDDING_DIMENSIONS) || 512) {
+    this.dimensions = dimensions;
+    this.model = `hashed-bow-${dimensions}`;
+  }
+
+  private vectorize(text: string): number[] {
+    const tokens = tokenize(text);
+    const features = [...tokens];
+    for (let i = 0; i < tokens.length - 1; i++) {
+      features.push(`${tokens[i]} ${tokens[i + 1]}`);
+    }
+
+    const counts = new Map<string, number>();
+    for (const feature of features) {
+      counts.set(feature, (counts.get(feature) || 0) + 1);
+    }
+
+    const vector = new Array<number>(this.dimensions).fill(0);
+    for (const [feature, count] of counts) {
+      const hash = fnv1a(feature);
+      const sign = hash & 0x80000000 ? -1 : 1;
+      vector[hash % this.dimensions] += sign * (1 + Math.log(count));
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm === 0 ? vector : vector.map((v) => v / norm);
+  }
+
+  async embed(text: string): Promise<number[]> {
+    return this.vectorize(text);
+  }
+
+  async embedMany(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.vectorize(text));
+  }
+}
@@ -0,0 +1,84 @@
+import { APICallError, embed, embedMany } from 'ai';
+import { createOpenAI } from '@ai-sdk/openai';
+import { InvalidApiKeyError, RateLimitError } from '../errors';
+import { reserveQuota } from '../quota';
+import { callUpstream } from '../resilience';
+import { estimateTokens } from '../tokens';
+import type { EmbeddingProvider } from './types';
+
+/**
+ * OpenAI-compatible embedding provider
+ *
+ * Works with OpenAI and any server exposing the `/v1/embeddings` API
+ * (Ollama, llama.cpp, LM Studio, ...) via OPENAI_BASE_URL.
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'openai' as const;
+  readonly model: string;
+  // text-embedding-3 similarities run lower than Gemini's
+  readonly similarityThreshold = 0.3;
+  private readonly openai: ReturnType<typeof createOpenAI>;
+
+  constructor(model: string = process.env.OPENAI_EMBEDDING_MODEL || 'text-embedding-3-small') {
+    this.model = model;
+    this.openai = createOpenAI({
+      apiKey: process.env.OPENAI_API_KEY,
+      baseURL: process.env.OPENAI_BASE_URL || undefined,
+    });
+  }
+
+  /**
+   * Map SDK errors onto the errors the rest of the app handles
+   */
+  private toError(error: unknown): Error {
+    if (APICallError.isInstance(error) && error.statusCode === 429) {
+      const retryAfter = error.responseHeaders?.['retry-after'];
+      return new RateLimitError(
+        'OpenAI API rate limit exceeded. Please try again later.',
+        retryAfter ? parseInt(retryAfter, 10) : 60
+      );
+    }
+    if (APICallError.isInstance(error) && (error.statusCode === 401 || error.statusCode === 403)) {
+      return new InvalidApiKeyError(`OpenAI API rejected the API key (${error.statusCode}).`);
+    }
+    if (error instanceof Error) {
+      return error;
+    }
+    return new Error(`Failed to generate embedding: ${String(error)}`);
+  }
+
+  async embed(text: string): Promise<number[]> {
+    return callUpstream('embedding:openai', async () => {
+      await reserveQuota('embedding', 1, estimateTokens(text));
+      try {
+        // No SDK retries - callUpstream retries transient failures only
+        const { embedding } = await embed({
+          model: this.openai.embedding(this.model),
+          value: text,
+          maxRetries: 0,
+        });
+        return embedding;
+      } catch (error) {
+        console.error('OpenAI embedding error:', error);
+        throw this.toError(error);
+      }
+    });
+  }
+
+  async embedMany(texts: string[]): Promise<number[][]> {
+    return callUpstream('embedding:openai', async () => {
+      await reserveQuota('embedding', 1, estimateTokens(texts.join(' ')));
+      try {
+        const { embeddings } = await embedMany({
+          model: this.openai.embedding(this.model),
+          values: texts,
+          maxRetries: 0,
+        });
+        return embeddings;
+      } catch (error) {
+        console.error('OpenAI batch embedding error:', error);
+        throw this.toError(error);
+      }
+    });
+  }
+}
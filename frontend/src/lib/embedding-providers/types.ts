@@ -0,0 +1,18 @@
+export type EmbeddingProviderName = 'gemini' | 'openai' | 'local';
+
+/**
+ * A source of embedding vectors
+ *
+ * Inputs are already validated (non-empty, trimmed) by `generateEmbedding`
+ * and `generateEmbeddings` in `embeddings.ts`.
+ */
+export interface EmbeddingProvider {
+  /** Provider id, recorded with every stored vector */
+  readonly name: EmbeddingProviderName;
+  /** Model id, recorded with every stored vector */
+  readonly model: string;
+  /** Default minimum cosine similarity (VECTOR_MIN_SIMILARITY overrides) - score scales differ between models */
+  readonly similarityThreshold: number;
+  embed(text: string): Promise<number[]>;
+  embedMany(texts: string[]): Promise<number[][]>;
+}
@@ -0,0 +1,7 @@
+/**
+ * Numeric env setting; unlike `Number(x) || fallback`, an explicit 0 is kept
+ */
+export function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) ? value : fallback;
+}
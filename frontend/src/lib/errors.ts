@@ -0,0 +1,327 @@
+import { APICallError } from 'ai';
+
+/**
+ * Typed error taxonomy
+ *
+ * Every failure the API reports to clients is an AppError with a stable,
+ * machine-readable `code`. Routes don't inspect messages: `errorResponse()`
+ * maps any thrown value to its HTTP status and JSON body, and the chat UI
+ * switches on `code` (via `parseErrorBody`).
+ *
+ * Response body: { error, code, message, retryAfter?, issues? }
+ * `internal_error` and `upstream_unavailable` get a fixed message; the
+ * original error is logged on the server.
+ */
+export type ErrorCode =
+  | 'bad_request'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'not_found'
+  | 'conflict'
+  | 'rate_limited'
+  | 'quota_exhausted'
+  | 'free_tier_disabled'
+  | 'invalid_api_key'
+  | 'upstream_unavailable'
+  | 'retrieval_empty'
+  | 'internal_error';
+
+const ERROR_STATUS: Record<ErrorCode, number> = {
+  bad_request: 400,
+  unauthorized: 401,
+  forbidden: 403,
+  not_found: 404,
+  conflict: 409,
+  rate_limited: 429,
+  quota_exhausted: 503,
+  free_tier_disabled: 503,
+  invalid_api_key: 500,
+  upstream_unavailable: 503,
+  retrieval_empty: 503,
+  internal_error: 500,
+};
+
+const ERROR_TITLES: Record<ErrorCode, string> = {
+  bad_request: 'Invalid request',
+  unauthorized: 'Unauthorized',
+  forbidden: 'Forbidden',
+  not_found: 'Not found',
+  conflict: 'Conflict',
+  rate_limited: 'Rate limit exceeded',
+  quota_exhausted: 'Service unavailable',
+  free_tier_disabled: 'Service unavailable',
+  invalid_api_key: 'Service misconfigured',
+  upstream_unavailable: 'Service unavailable',
+  retrieval_empty: 'Service unavailable',
+  internal_error: 'Failed to generate response',
+};
+
+/**
+ * One problem found while validating a request body
+ * `path` points at the offending field, e.g. "messages[2].parts[0].text"
+ */
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+export interface ErrorBody {
+  error: string;
+  code: ErrorCode;
+  message: string;
+  retryAfter?: number;
+  issues?: ValidationIssue[];
+}
+
+export class AppError extends Error {
+  readonly code: ErrorCode;
+  readonly status: number;
+  /** Seconds until retrying makes sense (sent as Retry-After) */
+  retryAfter?: number;
+
+  constructor(code: ErrorCode, message: string, options: { status?: number; retryAfter?: number } = {}) {
+    super(message);
+    this.name = 'AppError';
+    this.code = code;
+    this.status = options.status ?? ERROR_STATUS[code];
+    this.retryAfter = options.retryAfter;
+  }
+}
+
+export class BadRequestError extends AppError {
+  readonly issues?: ValidationIssue[];
+
+  constructor(message: string, issues?: ValidationIssue[]) {
+    super('bad_request', message);
+    this.name = 'BadRequestError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Missing, expired or invalid credentials (session token, admin token)
+ */
+export class UnauthorizedError extends AppError {
+  constructor(message: string = 'A valid session token is required.') {
+    super('unauthorized', message);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+/**
+ * The request comes from an origin that isn't allowed
+ */
+export class ForbiddenError extends AppError {
+  constructor(message: string = 'Requests from this origin are not allowed.') {
+    super('forbidden', message);
+    this.name = 'ForbiddenError';
+  }
+}
+
+export class NotFoundError extends AppError {
+  constructor(message: string) {
+    super('not_found', message);
+    this.name = 'NotFoundError';
+  }
+}
+
+export class ConflictError extends AppError {
+  constructor(message: string) {
+    super('conflict', message);
+    this.name = 'ConflictError';
+  }
+}
+
+/**
+ * Upstream answered 429 (or our own limiter denied the request)
+ */
+export class RateLimitError extends AppError {
+  retryAfter: number;
+
+  constructor(message: string, retryAfter: number = 60) {
+    super('rate_limited', message, { retryAfter });
+    this.name = 'RateLimitError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * The shared upstream budget (QUOTA_*) is used up
+ * Thrown before calling the API, so the upstream never sees the request
+ */
+export class QuotaExceededError extends AppError {
+  kind: string;
+  window: 'minute' | 'day';
+  retryAfter: number;
+
+  constructor(kind: string, window: 'minute' | 'day', retryAfter: number) {
+    super('quota_exhausted', `${kind} quota budget exhausted for this ${window}. Please try again later.`, { retryAfter });
+    this.name = 'QuotaExceededError';
+    this.kind = kind;
+    this.window = window;
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * Gemini reports "limit: 0": the free tier isn't enabled for the project
+ * Retrying never helps - the API has to be enabled in Google Cloud
+ */
+export class FreeTierDisabledError extends AppError {
+  constructor(message: string) {
+    super('free_tier_disabled', message);
+    this.name = 'FreeTierDisabledError';
+  }
+}
+
+/**
+ * API key missing, invalid or not allowed to call the API
+ */
+export class InvalidApiKeyError extends AppError {
+  constructor(message: string) {
+    super('invalid_api_key', message);
+    this.name = 'InvalidApiKeyError';
+  }
+}
+
+/**
+ * Non-2xx response from an upstream API that isn't a rate limit
+ * 5xx statuses are treated as transient and retried
+ */
+export class UpstreamError extends AppError {
+  /** HTTP status the upstream answered with */
+  upstreamStatus: number;
+
+  constructor(message: string, upstreamStatus: number) {
+    super('upstream_unavailable', message, { status: 502 });
+    this.name = 'UpstreamError';
+    this.upstreamStatus = upstreamStatus;
+  }
+}
+
+/**
+ * The circuit breaker for an upstream service is open after repeated failures
+ * Calls are short-circuited until the cooldown ends
+ */
+export class CircuitOpenError extends AppError {
+  service: string;
+  retryAfter: number;
+
+  constructor(service: string, retryAfter: number) {
+    super('upstream_unavailable', `${service} is temporarily unavailable after repeated failures. Please try again later.`, { retryAfter });
+    this.name = 'CircuitOpenError';
+    this.service = service;
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * Nothing to retrieve from: the index is empty
+ */
+export class RetrievalEmptyError extends AppError {
+  constructor(message: string = 'No portfolio embeddings found.') {
+    super('retrieval_empty', message);
+    this.name = 'RetrievalEmptyError';
+  }
+}
+
+/**
+ * True for rate limit / quota failures from the embedding API (and an open
+ * circuit, which means those failures kept happening)
+ * Retrying these only burns more quota, so callers degrade instead
+ */
+export function isQuotaOrRateLimitError(error: unknown): boolean {
+  return (
+    error instanceof RateLimitError ||
+    error instanceof QuotaExceededError ||
+    error instanceof FreeTierDisabledError ||
+    error instanceof CircuitOpenError
+  );
+}
+
+function parseRetryAfterHeader(value: string | undefined): number {
+  const seconds = value ? parseInt(value, 10) : NaN;
+  return Number.isFinite(seconds) ? seconds : 60;
+}
+
+/**
+ * Normalize anything thrown into an AppError
+ *
+ * SDK errors (`APICallError` from streamText/generateText/embed) are mapped by
+ * status; Gemini's "limit: 0" is only reported in the message, so that's the
+ * one place a message is inspected.
+ */
+export function toAppError(error: unknown): AppError {
+  if (error instanceof AppError) return error;
+
+  if (APICallError.isInstance(error)) {
+    const status = error.statusCode;
+    if (error.message.includes('limit: 0')) {
+      return new FreeTierDisabledError('The AI provider free tier is not enabled for this project.');
+    }
+    if (status === 429) {
+      return new RateLimitError('AI provider rate limit exceeded. Please try again later.', parseRetryAfterHeader(error.responseHeaders?.['retry-after']));
+    }
+    if (status === 401 || status === 403 || /api key/i.test(error.message)) {
+      return new InvalidApiKeyError('The AI provider rejected the API key.');
+    }
+    return new UpstreamError(`AI provider request failed: ${error.message}`, status ?? 0);
+  }
+
+  return new AppError('internal_error', error instanceof Error ? error.message : 'Unknown error');
+}
+
+// Codes whose messages can carry internals (store errors, raw provider replies);
+// clients get a fixed message and the original is only logged
+const GENERIC_MESSAGES: Partial<Record<ErrorCode, string>> = {
+  internal_error: 'Something went wrong. Please try again later.',
+  upstream_unavailable: 'The service is temporarily unavailable. Please try again later.',
+};
+
+export function toErrorBody(error: AppError): ErrorBody {
+  return {
+    error: ERROR_TITLES[error.code],
+    code: error.code,
+    message: GENERIC_MESSAGES[error.code] ?? error.message,
+    ...(error.retryAfter !== undefined && { retryAfter: error.retryAfter }),
+    ...(error instanceof BadRequestError && error.issues && { issues: error.issues }),
+  };
+}
+
+/**
+ * JSON error response with the mapped status (and Retry-After when known)
+ */
+export function errorResponse(error: unknown, headers: Record<string, string> = {}): Response {
+  const appError = toAppError(error);
+  if (GENERIC_MESSAGES[appError.code]) {
+    console.error(`Responding with ${appError.code}:`, error);
+  }
+  return new Response(JSON.stringify(toErrorBody(appError)), {
+    status: appError.status,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(appError.retryAfter !== undefined && { 'Retry-After': String(appError.retryAfter) }),
+      ...headers,
+    },
+  });
+}
+
+/**
+ * Read an error body on the client
+ * useChat surfaces non-2xx responses as an Error whose message is the raw body
+ */
+export function parseErrorBody(text: string | undefined): ErrorBody {
+  try {
+    const parsed = JSON.parse(text || '');
+    if (parsed && typeof parsed.code === 'string' && parsed.code in ERROR_STATUS) {
+      return parsed as ErrorBody;
+    }
+  } catch {
+    // Not JSON - e.g. a network error or a platform error page
+  }
+  return {
+    error: ERROR_TITLES.internal_error,
+    code: 'internal_error',
+    message: text || 'An error occurred. Please try again.',
+  };
+}
@@ -0,0 +1,266 @@
+import { searchSimilarDocuments, type SearchOptions } from './vector-store';
+import { getEmbeddingModelId } from './embedding-providers';
+import { getChunkOptions, type ChunkOptions } from './chunking';
+import { getDefaultFusionMethod, getDefaultFusionWeights, getDefaultSearchMode, type SearchMode } from './hybrid-search';
+
+/**
+ * Offline retrieval evaluation against a golden question set
+ *
+ * Each question lists the document ids a good search should return (and
+ * optionally facts the retrieved text should contain). Results are ranked at
+ * document level - a document counts once, at the rank of its best chunk.
+ *
+ * Metrics (binary relevance, averaged over questions):
+ * - recall@k: share of expected documents in the top k
+ * - MRR: 1 / rank of the first expected document (0 if none was retrieved)
+ * - nDCG@k: DCG of the top k divided by the best possible DCG
+ * - fact recall@k: share of expected facts found in the top k documents' chunks
+ *
+ * The report has no timestamps or durations, so two runs over the same
+ * corpus and settings produce identical JSON (diff-friendly).
+ */
+export interface GoldenQuestion {
+  id: string;
+  question: string;
+  expectedDocuments: string[];
+  /** Phrases the retrieved text should contain (case-insensitive) */
+  expectedFacts?: string[];
+}
+
+export interface GoldenSet {
+  description?: string;
+  questions: GoldenQuestion[];
+}
+
+export interface EvaluationOptions {
+  /** Cutoffs for recall@k / nDCG@k / fact recall@k (default 1, 3, 5) */
+  k?: number[];
+  mode?: SearchMode;
+  /** Chunks fetched per question before grouping by document (default max(k) * 5, at least 20) */
+  searchLimit?: number;
+}
+
+export interface QuestionResult {
+  id: string;
+  question: string;
+  expectedDocuments: string[];
+  /** Document ids in rank order */
+  retrieved: string[];
+  /** Rank (1-based) of the first expected document, null if not retrieved */
+  firstRelevantRank: number | null;
+  recall: Record<string, number>;
+  ndcg: Record<string, number>;
+  reciprocalRank: number;
+  /** Only for questions with expected facts */
+  factRecall?: Record<string, number>;
+  missingFacts?: string[];
+}
+
+export interface EvaluationSummary {
+  questions: number;
+  recall: Record<string, number>;
+  ndcg: Record<string, number>;
+  mrr: number;
+  /** Averaged over questions that have expected facts */
+  factRecall?: Record<string, number>;
+}
+
+export interface EvaluationReport {
+  config: {
+    embeddingModel: string;
+    mode: SearchMode;
+    fusion: SearchOptions['fusion'];
+    weights: SearchOptions['weights'];
+    chunking: ChunkOptions;
+    k: number[];
+    searchLimit: number;
+  };
+  summary: EvaluationSummary;
+  /** Expected ids that aren't in the corpus - usually a typo in the golden set */
+  unknownDocuments: string[];
+  results: QuestionResult[];
+}
+
+const DEFAULT_K = [1, 3, 5];
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string' && item.trim() !== '');
+}
+
+/**
+ * Validate a parsed golden set file; every problem is listed in the error
+ */
+export function parseGoldenSet(value: unknown): GoldenSet {
+  const issues: string[] = [];
+  const questions = (value as GoldenSet | null)?.questions;
+
+  if (!Array.isArray(questions) || questions.length === 0) {
+    throw new Error('Invalid golden set: "questions" must be a non-empty array');
+  }
+
+  const ids = new Set<string>();
+  questions.forEach((question: Partial<GoldenQuestion>, i) => {
+    const path = `questions[${i}]`;
+    if (typeof question?.id !== 'string' || !question.id.trim()) {
+      issues.push(`${path}.id: must be a non-empty string`);
+    } else if (ids.has(question.id)) {
+      issues.push(`${path}.id: duplicate id "${question.id}"`);
+    } else {
+      ids.add(question.id);
+    }
+    if (typeof question?.question !== 'string' || !question.question.trim()) {
+      issues.push(`${path}.question: must be a non-empty string`);
+    }
+    if (!isStringArray(question?.expectedDocuments) || question.expectedDocuments.length === 0) {
+      issues.push(`${path}.expectedDocuments: must be a non-empty array of document ids`);
+    }
+    if (question?.expectedFacts !== undefined && !isStringArray(question.expectedFacts)) {
+      issues.push(`${path}.expectedFacts: must be an array of strings`);
+    }
+  });
+
+  if (issues.length > 0) {
+    throw new Error(`Invalid golden set:\n  ${issues.join('\n  ')}`);
+  }
+  return value as GoldenSet;
+}
+
+// 4 decimals keeps reports readable and stable across runs
+function round(value: number): number {
+  return Math.round(value * 10_000) / 10_000;
+}
+
+export function recallAtK(retrieved: string[], expected: string[], k: number): number {
+  const top = new Set(retrieved.slice(0, k));
+  return expected.filter((id) => top.has(id)).length / expected.length;
+}
+
+export function reciprocalRank(retrieved: string[], expected: string[]): number {
+  const index = retrieved.findIndex((id) => expected.includes(id));
+  return index === -1 ? 0 : 1 / (index + 1);
+}
+
+export function ndcgAtK(retrieved: string[], expected: string[], k: number): number {
+  const relevant = new Set(expected);
+  let dcg = 0;
+  retrieved.slice(0, k).forEach((id, i) => {
+    if (relevant.has(id)) dcg += 1 / Math.log2(i + 2);
+  });
+  let idealDcg = 0;
+  for (let i = 0; i < Math.min(relevant.size, k); i++) {
+    idealDcg += 1 / Math.log2(i + 2);
+  }
+  return idealDcg === 0 ? 0 : dcg / idealDcg;
+}
+
+function average(values: number[]): number {
+  return values.length === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function averageByK(records: Record<string, number>[], k: number[]): Record<string, number> {
+  return Object.fromEntries(k.map((cutoff) => [
+    String(cutoff),
+    round(average(records.map((record) => record[String(cutoff)]))),
+  ]));
+}
+
+async function evaluateQuestion(
+  golden: GoldenQuestion,
+  k: number[],
+  searchLimit: number,
+  mode: SearchMode
+): Promise<QuestionResult> {
+  const results = await searchSimilarDocuments(golden.question, searchLimit, { mode });
+
+  // Group chunks by document, keeping the best-ranked chunk's position
+  const retrieved: string[] = [];
+  const contentByDocument = new Map<string, string[]>();
+  for (const result of results) {
+    const id = result.document.id;
+    if (!contentByDocument.has(id)) {
+      retrieved.push(id);
+      contentByDocument.set(id, []);
+    }
+    contentByDocument.get(id)!.push(result.document.content);
+  }
+
+  const expected = golden.expectedDocuments;
+  const rank = reciprocalRank(retrieved, expected);
+  const result: QuestionResult = {
+    id: golden.id,
+    question: golden.question,
+    expectedDocuments: expected,
+    retrieved,
+    firstRelevantRank: rank === 0 ? null : Math.round(1 / rank),
+    recall: Object.fromEntries(k.map((cutoff) => [String(cutoff), round(recallAtK(retrieved, expected, cutoff))])),
+    ndcg: Object.fromEntries(k.map((cutoff) => [String(cutoff), round(ndcgAtK(retrieved, expected, cutoff))])),
+    reciprocalRank: round(rank),
+  };
+
+  const facts = golden.expectedFacts;
+  if (facts && facts.length > 0) {
+    const textAt = (cutoff: number) => retrieved
+      .slice(0, cutoff)
+      .flatMap((id) => contentByDocument.get(id)!)
+      .join('\n')
+      .toLowerCase();
+    const found = (text: string) => facts.filter((fact) => text.includes(fact.toLowerCase()));
+
+    result.factRecall = Object.fromEntries(k.map((cutoff) => [
+      String(cutoff),
+      round(found(textAt(cutoff)).length / facts.length),
+    ]));
+    const foundAtMaxK = new Set(found(textAt(Math.max(...k))));
+    result.missingFacts = facts.filter((fact) => !foundAtMaxK.has(fact));
+  }
+
+  return result;
+}
+
+/**
+ * Run every golden question through `searchSimilarDocuments` and score the rankings
+ * The store must already be initialized with the corpus (`corpusIds` = its document ids)
+ */
+export async function evaluateRetrieval(
+  goldenSet: GoldenSet,
+  corpusIds: string[],
+  options: EvaluationOptions = {}
+): Promise<EvaluationReport> {
+  const k = Array.from(new Set(options.k ?? DEFAULT_K)).sort((a, b) => a - b);
+  const mode = options.mode ?? getDefaultSearchMode();
+  const searchLimit = options.searchLimit ?? Math.max(20, Math.max(...k) * 5);
+
+  // Sequential: keeps query-embedding calls (and their logs) in question order
+  const results: QuestionResult[] = [];
+  for (const question of goldenSet.questions) {
+    results.push(await evaluateQuestion(question, k, searchLimit, mode));
+  }
+
+  const withFacts = results.filter((result) => result.factRecall);
+  const known = new Set(corpusIds);
+
+  return {
+    config: {
+      embeddingModel: getEmbeddingModelId(),
+      mode,
+      fusion: mode === 'hybrid' ? getDefaultFusionMethod() : undefined,
+      weights: mode === 'hybrid' ? getDefaultFusionWeights() : undefined,
+      chunking: getChunkOptions(),
+      k,
+      searchLimit,
+    },
+    summary: {
+      questions: results.length,
+      recall: averageByK(results.map((result) => result.recall), k),
+      ndcg: averageByK(results.map((result) => result.ndcg), k),
+      mrr: round(average(results.map((result) => result.reciprocalRank))),
+      ...(withFacts.length > 0 && {
+        factRecall: averageByK(withFacts.map((result) => result.factRecall!), k),
+      }),
+    },
+    unknownDocuments: Array.from(new Set(
+      goldenSet.questions.flatMap((question) => question.expectedDocuments).filter((id) => !known.has(id))
+    )).sort(),
+    results,
+  };
+}
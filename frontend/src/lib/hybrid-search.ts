@@ -0,0 +1,77 @@
+/**
+ * Hybrid retrieval settings and rank fusion
+ *
+ * SEARCH_MODE=hybrid (default) - BM25 + vector, fused
+ * SEARCH_MODE=vector - cosine similarity only
+ * SEARCH_MODE=lexical - BM25 only (no embedding API calls)
+ *
+ * HYBRID_FUSION=rrf (default) - reciprocal rank fusion, robust to score scales
+ * HYBRID_FUSION=weighted - weighted sum of normalized scores
+ */
+
+import { envNumber } from './env';
+
+export type SearchMode = 'vector' | 'lexical' | 'hybrid';
+export type FusionMethod = 'rrf' | 'weighted';
+
+export interface FusionWeights {
+  vector: number;
+  lexical: number;
+}
+
+// Standard RRF constant - dampens the advantage of top ranks
+const RRF_K = 60;
+
+export function getDefaultSearchMode(): SearchMode {
+  const mode = process.env.SEARCH_MODE;
+  return mode === 'vector' || mode === 'lexical' ? mode : 'hybrid';
+}
+
+export function getDefaultFusionMethod(): FusionMethod {
+  return process.env.HYBRID_FUSION === 'weighted' ? 'weighted' : 'rrf';
+}
+
+/**
+ * HYBRID_VECTOR_WEIGHT / HYBRID_LEXICAL_WEIGHT (default 0.5 each)
+ */
+export function getDefaultFusionWeights(): FusionWeights {
+  return {
+    vector: envNumber('HYBRID_VECTOR_WEIGHT', 0.5),
+    lexical: envNumber('HYBRID_LEXICAL_WEIGHT', 0.5),
+  };
+}
+
+function rank(scores: Map<string, number>): string[] {
+  return Array.from(scores.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([id]) => id);
+}
+
+/**
+ * Fuse vector and lexical scores into one score per id
+ *
+ * Inputs should only contain relevant candidates (vector scores above the
+ * similarity threshold, lexical scores > 0); an id missing from one list
+ * simply gets nothing from it.
+ */
+export function fuseScores(
+  vectorScores: Map<string, number>,
+  lexicalScores: Map<string, number>,
+  method: FusionMethod,
+  weights: FusionWeights
+): Map<string, number> {
+  const fused = new Map<string, number>();
+  const add = (id: string, value: number) => fused.set(id, (fused.get(id) || 0) + value);
+
+  if (method === 'rrf') {
+    rank(vectorScores).forEach((id, i) => add(id, weights.vector / (RRF_K + i + 1)));
+    rank(lexicalScores).forEach((id, i) => add(id, weights.lexical / (RRF_K + i + 1)));
+    return fused;
+  }
+
+  // Weighted: cosine is already 0..1; BM25 is unbounded, so normalize by the best match
+  const maxLexical = Math.max(0, ...lexicalScores.values());
+  vectorScores.forEach((score, id) => add(id, weights.vector * Math.max(0, score)));
+  lexicalScores.forEach((score, id) => add(id, weights.lexical * (maxLexical > 0 ? score / maxLexical : 0)));
+  return fused;
+}
@@ -0,0 +1,112 @@
+import { isEdgeRuntime, loadNodeModules } from '../node-builtins';
+import type { Document } from '../vector-store';
+import { parseContentFile } from './parsers';
+
+export { idFromPath, parseContentFile, parseFrontMatter } from './parsers';
+
+/**
+ * Content directory (CONTENT_DIR, default `content/` in the app root)
+ */
+export function getContentDirectory(): string {
+  return process.env.CONTENT_DIR || 'content';
+}
+
+/**
+ * Load portfolio documents from a content directory (Node.js only)
+ *
+ * Walks the directory recursively and parses Markdown/MDX (front-matter ->
+ * metadata), plain text and JSON files. Dotfiles and other extensions are
+ * ignored. Returns null when the directory doesn't exist or the runtime has
+ * no filesystem (Edge).
+ *
+ * Throws on duplicate ids so two files can't silently overwrite each other.
+ */
+export async function loadContentDirectory(dir: string = getContentDirectory()): Promise<Document[] | null> {
+  if (isEdgeRuntime()) return null;
+
+  const { fs, path } = await loadNodeModules();
+  const root = path.resolve(dir);
+
+  try {
+    if (!(await fs.stat(root)).isDirectory()) return null;
+  } catch {
+    return null;
+  }
+
+  const documents: Document[] = [];
+  const sources = new Map<string, string>();
+
+  const walk = async (current: string): Promise<void> => {
+    const entries = await fs.readdir(current, { withFileTypes: true });
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+
+    for (const entry of entries) {
+      if (entry.name.startsWith('.')) continue;
+      const fullPath = path.join(current, entry.name);
+
+      if (entry.isDirectory()) {
+        await walk(fullPath);
+        continue;
+      }
+
+      const relativePath = path.relative(root, fullPath).split(path.sep).join('/');
+      const source = await fs.readFile(fullPath, 'utf8');
+      let parsed: Document[] | null;
+      try {
+        parsed = parseContentFile(source, relativePath);
+      } catch (error) {
+        throw new Error(`Failed to parse ${relativePath}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      if (!parsed) continue;
+
+      for (const doc of parsed) {
+        if (!doc.content) {
+          console.warn(`Skipping empty document "${doc.id}" (${relativePath})`);
+          continue;
+        }
+        const existing = sources.get(doc.id);
+        if (existing) {
+          throw new Error(`Duplicate document id "${doc.id}" in ${existing} and ${relativePath}`);
+        }
+        sources.set(doc.id, relativePath);
+        documents.push(doc);
+      }
+    }
+  };
+
+  await walk(root);
+  return documents;
+}
+
+/**
+ * Cheap fingerprint of a content directory - paths, sizes and modification times
+ * of its files, without reading them. Null when there is no directory or no
+ * filesystem (Edge).
+ */
+export async function getContentDirectoryStamp(dir: string = getContentDirectory()): Promise<string | null> {
+  if (isEdgeRuntime()) return null;
+
+  const { fs, path } = await loadNodeModules();
+  const root = path.resolve(dir);
+  const entries: string[] = [];
+
+  const walk = async (current: string): Promise<void> => {
+    for (const entry of await fs.readdir(current, { withFileTypes: true })) {
+      if (entry.name.startsWith('.')) continue;
+      const fullPath = path.join(current, entry.name);
+      if (entry.isDirectory()) {
+        await walk(fullPath);
+      } else {
+        const stat = await fs.stat(fullPath);
+        entries.push(`${path.relative(root, fullPath)}:${stat.size}:${stat.mtimeMs}`);
+      }
+    }
+  };
+
+  try {
+    await walk(root);
+  } catch {
+    return null;
+  }
+  return entries.sort().join('\n');
+}
@@ -0,0 +1,170 @@
+import type { Document } from '../vector-store';
+
+/**
+ * Content file parsers (pure, Edge-safe)
+ *
+ * Ids are stable: an explicit `id` wins, otherwise it's derived from the
+ * file's path relative to the content directory (`projects/rag-chatbot.md`
+ * -> `projects/rag-chatbot`), so re-ingesting never reshuffles embeddings.
+ */
+
+type FrontMatterValue = string | number | boolean | null | FrontMatterValue[];
+
+/**
+ * Turn a relative file path into a document id
+ */
+export function idFromPath(relativePath: string): string {
+  return relativePath
+    .replace(/\\/g, '/')
+    .replace(/\.[^./]+$/, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9/_-]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Default metadata for a file: its source path, and its top-level folder as category
+ */
+function defaultMetadata(relativePath: string): Record<string, unknown> {
+  const normalized = relativePath.replace(/\\/g, '/');
+  const metadata: Record<string, unknown> = { source: normalized };
+  const slash = normalized.indexOf('/');
+  if (slash > 0) {
+    metadata.category = normalized.slice(0, slash);
+  }
+  return metadata;
+}
+
+function parseScalar(raw: string): FrontMatterValue {
+  const value = raw.trim();
+  if (value === '') return null;
+  if ((value.startsWith('"') && value.endsWith('"')) || (value.startsWith("'") && value.endsWith("'"))) {
+    return value.slice(1, -1);
+  }
+  if (value.startsWith('[') && value.endsWith(']')) {
+    const inner = value.slice(1, -1).trim();
+    return inner ? inner.split(',').map((item) => parseScalar(item)) : [];
+  }
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  if (value === 'null' || value === '~') return null;
+  if (/^-?\d+(\.\d+)?$/.test(value)) return Number(value);
+  return value;
+}
+
+/**
+ * Parse YAML-style front-matter (the flat subset used for metadata)
+ *
+ * Supports `key: value` scalars, inline lists (`tech: [Next.js, Redis]`)
+ * and block lists (`tech:` followed by `- item` lines). Nested maps are not supported.
+ */
+export function parseFrontMatter(source: string): { data: Record<string, FrontMatterValue>; body: string } {
+  const match = source.match(/^\uFEFF?---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+  if (!match) {
+    return { data: {}, body: source };
+  }
+
+  const data: Record<string, FrontMatterValue> = {};
+  let listKey: string | null = null;
+
+  for (const line of match[1].split(/\r?\n/)) {
+    if (!line.trim() || line.trim().startsWith('#')) continue;
+
+    const listItem = line.match(/^\s*-\s+(.*)$/);
+    if (listItem && listKey) {
+      (data[listKey] as FrontMatterValue[]).push(parseScalar(listItem[1]));
+      continue;
+    }
+
+    const pair = line.match(/^([A-Za-z0-9_-]+)\s*:\s*(.*)$/);
+    if (!pair) {
+      throw new Error(`Invalid front-matter line: "${line}"`);
+    }
+    const [, key, rawValue] = pair;
+    if (rawValue.trim() === '') {
+      data[key] = [];
+      listKey = key;
+    } else {
+      data[key] = parseScalar(rawValue);
+      listKey = null;
+    }
+  }
+
+  return { data, body: source.slice(match[0].length) };
+}
+
+/**
+ * Markdown / MDX: front-matter becomes metadata (`id` sets the document id)
+ */
+export function parseMarkdownDocument(source: string, relativePath: string): Document {
+  const { data, body } = parseFrontMatter(source);
+  const { id, ...frontMatter } = data;
+
+  return {
+    id: typeof id === 'string' || typeof id === 'number' ? String(id) : idFromPath(relativePath),
+    content: body.trim(),
+    metadata: { ...defaultMetadata(relativePath), ...frontMatter },
+  };
+}
+
+/**
+ * Plain text: the whole file is the content
+ */
+export function parseTextDocument(source: string, relativePath: string): Document {
+  return {
+    id: idFromPath(relativePath),
+    content: source.trim(),
+    metadata: defaultMetadata(relativePath),
+  };
+}
+
+/**
+ * JSON: a document object, an array of them, or `{ "documents": [...] }`
+ * Entries without an id get `{path-id}-{n}`
+ */
+export function parseJsonDocuments(source: string, relativePath: string): Document[] {
+  const parsed = JSON.parse(source) as unknown;
+  const entries = Array.isArray(parsed)
+    ? parsed
+    : parsed && typeof parsed === 'object' && Array.isArray((parsed as { documents?: unknown }).documents)
+      ? (parsed as { documents: unknown[] }).documents
+      : [parsed];
+  const baseId = idFromPath(relativePath);
+
+  return entries.map((entry, index) => {
+    const doc = entry as { id?: unknown; content?: unknown; metadata?: unknown };
+    if (!doc || typeof doc !== 'object' || typeof doc.content !== 'string') {
+      throw new Error(`${relativePath}: entry ${index} must be an object with a string "content"`);
+    }
+    const metadata = doc.metadata && typeof doc.metadata === 'object' ? (doc.metadata as Record<string, unknown>) : {};
+
+    return {
+      id: typeof doc.id === 'string' || typeof doc.id === 'number'
+        ? String(doc.id)
+        : Array.isArray(parsed) || entries.length > 1 ? `${baseId}-${index + 1}` : baseId,
+      content: doc.content.trim(),
+      metadata: { ...defaultMetadata(relativePath), ...metadata },
+    };
+  });
+}
+
+/**
+ * Parse a content file by extension
+ * Returns null for unsupported file types
+ */
+export function parseContentFile(source: string, relativePath: string): Document[] | null {
+  const extension = relativePath.slice(relativePath.lastIndexOf('.')).toLowerCase();
+
+  switch (extension) {
+    case '.md':
+    case '.mdx':
+    case '.markdown':
+      return [parseMarkdownDocument(source, relativePath)];
+    case '.txt':
+      return [parseTextDocument(source, relativePath)];
+    case '.json':
+      return parseJsonDocuments(source, relativePath);
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Metadata filters for retrieval
+ *
+ * Leaf conditions test one metadata field; `and`/`or`/`not` combine them.
+ * String comparisons are case-insensitive so "redis" matches "Redis".
+ *
+ * @example
+ * // projects that used Redis
+ * { and: [{ field: 'category', eq: 'projects' }, { field: 'tech', contains: 'Redis' }] }
+ */
+export type MetadataFilter =
+  | { field: string; eq: unknown }
+  | { field: string; in: unknown[] }
+  | { field: string; contains: unknown }
+  | { and: MetadataFilter[] }
+  | { or: MetadataFilter[] }
+  | { not: MetadataFilter };
+
+function valuesEqual(a: unknown, b: unknown): boolean {
+  if (typeof a === 'string' && typeof b === 'string') {
+    return a.toLowerCase() === b.toLowerCase();
+  }
+  return a === b;
+}
+
+/**
+ * Check document metadata against a filter
+ * Missing fields never match a leaf condition
+ */
+export function matchesFilter(metadata: Record<string, unknown> | undefined, filter: MetadataFilter): boolean {
+  if ('and' in filter) {
+    return filter.and.every((f) => matchesFilter(metadata, f));
+  }
+  if ('or' in filter) {
+    return filter.or.some((f) => matchesFilter(metadata, f));
+  }
+  if ('not' in filter) {
+    return !matchesFilter(metadata, filter.not);
+  }
+
+  const value = metadata?.[filter.field];
+  if (value === undefined) return false;
+
+  if ('eq' in filter) {
+    return valuesEqual(value, filter.eq);
+  }
+  if ('in' in filter) {
+    return filter.in.some((candidate) => valuesEqual(value, candidate));
+  }
+  // Array-contains; a scalar field "contains" only itself
+  return Array.isArray(value)
+    ? value.some((item) => valuesEqual(item, filter.contains))
+    : valuesEqual(value, filter.contains);
+}
+
+/**
+ * Combine filters with AND, skipping empty ones
+ */
+export function combineFilters(...filters: Array<MetadataFilter | undefined>): MetadataFilter | undefined {
+  const present = filters.filter((f): f is MetadataFilter => f !== undefined);
+  if (present.length === 0) return undefined;
+  if (present.length === 1) return present[0];
+  return { and: present };
+}
@@ -0,0 +1,21 @@
+type FsModule = typeof import('node:fs/promises');
+type PathModule = typeof import('node:path');
+
+/**
+ * Load Node built-ins at runtime only, so Edge bundles that import
+ * Node-only features (file store, content ingestion) don't try to resolve `fs`
+ */
+export async function loadNodeModules(): Promise<{ fs: FsModule; path: PathModule }> {
+  const [fs, path] = await Promise.all([
+    import(/* webpackIgnore: true */ /* turbopackIgnore: true */ 'node:fs/promises'),
+    import(/* webpackIgnore: true */ /* turbopackIgnore: true */ 'node:path'),
+  ]);
+  return { fs, path };
+}
+
+/**
+ * True when running on the Edge runtime (no filesystem access)
+ */
+export function isEdgeRuntime(): boolean {
+  return process.env.NEXT_RUNTIME === 'edge';
+}
@@ -0,0 +1,288 @@
+import personaFile from '../../personas.json';
+import { BadRequestError } from './errors';
+import { citationTitle } from './citations';
+import type { PromptRenderer } from './context-builder';
+import { parseModelSpec } from './chat-models';
+
+/**
+ * Personas and prompt templates (`personas.json`)
+ *
+ * Each persona sets the system prompt templates, temperature and (optionally)
+ * preferred model of the chat route, so a deployment can be re-voiced or pointed at
+ * someone else's portfolio without touching the route. Templates use
+ * `{{name}}` placeholders filled from `variables` (top-level, overridable per
+ * persona; values may reference other top-level variables) and these built-ins:
+ *
+ * - system: `{{context}}` (required), `{{summary}}`
+ * - noContext (no chunk matched): `{{summary}}`
+ * - document (one chunk of the context block, default `{{content}}`): `{{content}}`, `{{title}}`, `{{id}}`, `{{url}}`
+ * - summary (rolling conversation summary block, only when there is one): `{{text}}`
+ *
+ * PERSONA - deployment default (defaults to the file's `default`)
+ * A chat request can pick another persona with `"persona": "<name>"`.
+ *
+ * The file is bundled at build time and validated once at server startup
+ * (src/instrumentation.ts); every problem is listed in the error.
+ */
+export type TemplateVariables = Record<string, string | number>;
+
+export interface PersonaTemplates {
+  system: string;
+  noContext: string;
+  document?: string;
+  summary?: string;
+}
+
+export interface PersonaDefinition {
+  description?: string;
+  /** `provider:model` tried before the CHAT_MODELS chain (lib/chat-models.ts) */
+  model?: string;
+  /** Defaults to 0.7 */
+  temperature?: number;
+  variables?: TemplateVariables;
+  templates: PersonaTemplates;
+}
+
+export interface PersonaConfig {
+  default: string;
+  variables?: TemplateVariables;
+  personas: Record<string, PersonaDefinition>;
+}
+
+/** A persona with variables resolved and template defaults filled in */
+export interface Persona {
+  name: string;
+  description: string;
+  model?: string;
+  temperature: number;
+  variables: Record<string, string>;
+  templates: Required<PersonaTemplates>;
+}
+
+const NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,39}$/;
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+const DEFAULT_TEMPLATES = {
+  document: '{{content}}',
+  summary: '\n\nSummary of the earlier conversation:\n{{text}}',
+};
+
+// Placeholders filled by the route rather than the config
+const BUILT_INS: Record<keyof PersonaTemplates, string[]> = {
+  system: ['context', 'summary'],
+  noContext: ['summary'],
+  document: ['content', 'title', 'id', 'url'],
+  summary: ['text'],
+};
+
+let cachedConfig: PersonaConfig | null = null;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function placeholders(template: string): string[] {
+  return [...template.matchAll(PLACEHOLDER_PATTERN)].map((match) => match[1]);
+}
+
+/**
+ * Fill `{{name}}` placeholders; unknown names are left as they are
+ */
+export function renderTemplate(template: string, values: Record<string, string | number>): string {
+  return template.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) =>
+    values[name] !== undefined ? String(values[name]) : placeholder
+  );
+}
+
+function validateVariables(value: unknown, path: string, issues: string[]): void {
+  if (value === undefined) return;
+  if (!isObject(value)) {
+    issues.push(`${path}: must be an object`);
+    return;
+  }
+  for (const [name, variable] of Object.entries(value)) {
+    if (!/^\w+$/.test(name)) {
+      issues.push(`${path}.${name}: variable names may only use letters, digits and _`);
+    } else if (typeof variable !== 'string' && typeof variable !== 'number') {
+      issues.push(`${path}.${name}: must be a string or a number`);
+    }
+  }
+}
+
+function validatePersona(name: string, value: unknown, shared: TemplateVariables, issues: string[]): void {
+  const path = `personas.${name}`;
+  if (!NAME_PATTERN.test(name)) {
+    issues.push(`${path}: names must be lowercase letters, digits, - or _ (max 40 characters)`);
+  }
+  if (!isObject(value)) {
+    issues.push(`${path}: must be an object`);
+    return;
+  }
+
+  if (value.description !== undefined && typeof value.description !== 'string') {
+    issues.push(`${path}.description: must be a string`);
+  }
+  if (value.model !== undefined && (typeof value.model !== 'string' || !value.model.trim())) {
+    issues.push(`${path}.model: must be a non-empty string`);
+  } else if (typeof value.model === 'string') {
+    const modelIssues: string[] = [];
+    parseModelSpec(value.model, modelIssues);
+    issues.push(...modelIssues.map((issue) => `${path}.model: ${issue}`));
+  }
+  if (value.temperature !== undefined && (typeof value.temperature !== 'number' || value.temperature < 0 || value.temperature > 2)) {
+    issues.push(`${path}.temperature: must be a number between 0 and 2`);
+  }
+  validateVariables(value.variables, `${path}.variables`, issues);
+  for (const [variable, text] of Object.entries(isObject(value.variables) ? value.variables : {})) {
+    for (const placeholder of typeof text === 'string' ? placeholders(text) : []) {
+      if (shared[placeholder] === undefined) {
+        issues.push(`${path}.variables.${variable}: unknown variable {{${placeholder}}} (only top-level variables can be referenced)`);
+      }
+    }
+  }
+
+  const templates = value.templates;
+  if (!isObject(templates)) {
+    issues.push(`${path}.templates: must be an object with "system" and "noContext"`);
+    return;
+  }
+
+  const variables = { ...shared, ...(isObject(value.variables) ? (value.variables as TemplateVariables) : {}) };
+  for (const [template, builtIns] of Object.entries(BUILT_INS) as [keyof PersonaTemplates, string[]][]) {
+    const text = templates[template];
+    const required = template === 'system' || template === 'noContext';
+    if (text === undefined && !required) continue;
+    if (typeof text !== 'string' || !text.trim()) {
+      issues.push(`${path}.templates.${template}: must be a non-empty string`);
+      continue;
+    }
+    for (const placeholder of placeholders(text)) {
+      if (!builtIns.includes(placeholder) && variables[placeholder] === undefined) {
+        issues.push(`${path}.templates.${template}: unknown variable {{${placeholder}}}`);
+      }
+    }
+  }
+  if (typeof templates.system === 'string' && !placeholders(templates.system).includes('context')) {
+    issues.push(`${path}.templates.system: must include {{context}}`);
+  }
+  for (const key of Object.keys(templates)) {
+    if (!(key in BUILT_INS)) {
+      issues.push(`${path}.templates.${key}: unknown template (expected ${Object.keys(BUILT_INS).join(', ')})`);
+    }
+  }
+}
+
+/**
+ * Validate a parsed persona file; every problem is listed in the error
+ * `deploymentDefault` (PERSONA) must name one of the personas when set.
+ */
+export function parsePersonaConfig(value: unknown, deploymentDefault?: string): PersonaConfig {
+  if (!isObject(value) || !isObject(value.personas) || Object.keys(value.personas).length === 0) {
+    throw new Error('Invalid persona config: "personas" must be an object with at least one persona');
+  }
+
+  const issues: string[] = [];
+  validateVariables(value.variables, 'variables', issues);
+  const shared = isObject(value.variables) ? (value.variables as TemplateVariables) : {};
+  for (const [name, variable] of Object.entries(shared)) {
+    // Shared variables may reference each other once (e.g. a refusal naming {{ownerName}})
+    for (const placeholder of typeof variable === 'string' ? placeholders(variable) : []) {
+      const target = shared[placeholder];
+      if (target === undefined) {
+        issues.push(`variables.${name}: unknown variable {{${placeholder}}}`);
+      } else if (typeof target === 'string' && placeholders(target).length > 0) {
+        issues.push(`variables.${name}: {{${placeholder}}} has placeholders itself - only one level is resolved`);
+      }
+    }
+  }
+
+  for (const [name, persona] of Object.entries(value.personas)) {
+    validatePersona(name, persona, shared, issues);
+  }
+
+  if (typeof value.default !== 'string' || !(value.default in value.personas)) {
+    issues.push(`default: must name one of the personas (${Object.keys(value.personas).join(', ')})`);
+  }
+  if (deploymentDefault && !(deploymentDefault in value.personas)) {
+    issues.push(`PERSONA: "${deploymentDefault}" is not one of the personas (${Object.keys(value.personas).join(', ')})`);
+  }
+
+  if (issues.length > 0) {
+    throw new Error(`Invalid persona config:\n  ${issues.join('\n  ')}`);
+  }
+  return value as unknown as PersonaConfig;
+}
+
+/**
+ * The validated `personas.json` (checked once, then cached)
+ */
+export function getPersonaConfig(): PersonaConfig {
+  if (!cachedConfig) {
+    cachedConfig = parsePersonaConfig(personaFile, process.env.PERSONA);
+  }
+  return cachedConfig;
+}
+
+export function getPersonaNames(): string[] {
+  return Object.keys(getPersonaConfig().personas);
+}
+
+/**
+ * Persona for a request: `requested`, else PERSONA, else the file's default
+ * Throws BadRequestError for an unknown requested name.
+ */
+export function resolvePersona(requested?: string, config: PersonaConfig = getPersonaConfig()): Persona {
+  const name = requested || process.env.PERSONA || config.default;
+  const definition = config.personas[name];
+  if (!definition) {
+    throw new BadRequestError('Unknown persona', [
+      { path: 'persona', message: `"${name}" is not one of ${Object.keys(config.personas).join(', ')}` },
+    ]);
+  }
+
+  // Shared variables are resolved against each other first, then persona values against them
+  const shared = Object.fromEntries(
+    Object.entries(config.variables ?? {}).map(([key, value]) => [key, renderTemplate(String(value), config.variables ?? {})])
+  );
+  const variables = {
+    ...shared,
+    ...Object.fromEntries(
+      Object.entries(definition.variables ?? {}).map(([key, value]) => [key, renderTemplate(String(value), shared)])
+    ),
+  };
+
+  return {
+    name,
+    description: definition.description ?? '',
+    model: definition.model,
+    temperature: definition.temperature ?? 0.7,
+    variables,
+    templates: { ...DEFAULT_TEMPLATES, ...definition.templates },
+  };
+}
+
+/**
+ * Renders chunks and the system prompt with a persona's templates
+ * `summary` is the conversation's rolling summary, if it has one.
+ */
+export function createPromptRenderer(persona: Persona, summary?: string): PromptRenderer {
+  const summaryBlock = summary ? renderTemplate(persona.templates.summary, { ...persona.variables, text: summary }) : '';
+
+  return {
+    document: (result) => {
+      const { document } = result;
+      const url = document.metadata?.url;
+      return renderTemplate(persona.templates.document, {
+        ...persona.variables,
+        content: document.content,
+        title: citationTitle(result),
+        id: document.id,
+        url: typeof url === 'string' ? url : '',
+      });
+    },
+    system: (context) =>
+      context
+        ? renderTemplate(persona.templates.system, { ...persona.variables, context, summary: summaryBlock })
+        : renderTemplate(persona.templates.noContext, { ...persona.variables, summary: summaryBlock }),
+  };
+}
@@ -0,0 +1,40 @@
+/**
+ * Hashcash-style proof of work, shared by the server (verify) and the browser (solve)
+ *
+ * A solution is a string such that SHA-256(`${challenge}:${solution}`) starts
+ * with `difficulty` zero bits. Each extra bit doubles the expected work:
+ * 16 bits is ~65k hashes (well under a second in a browser).
+ */
+
+async function hash(challenge: string, solution: string): Promise<Uint8Array> {
+  const data = new TextEncoder().encode(`${challenge}:${solution}`);
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+}
+
+function leadingZeroBits(bytes: Uint8Array): number {
+  let bits = 0;
+  for (const byte of bytes) {
+    if (byte === 0) {
+      bits += 8;
+      continue;
+    }
+    return bits + Math.clz32(byte) - 24;
+  }
+  return bits;
+}
+
+export async function meetsDifficulty(challenge: string, solution: string, difficulty: number): Promise<boolean> {
+  return leadingZeroBits(await hash(challenge, solution)) >= difficulty;
+}
+
+/**
+ * Brute-force a solution (client side)
+ */
+export async function solveChallenge(challenge: string, difficulty: number): Promise<string> {
+  for (let nonce = 0; ; nonce++) {
+    const solution = nonce.toString(36);
+    if (await meetsDifficulty(challenge, solution, difficulty)) {
+      return solution;
+    }
+  }
+}
@@ -0,0 +1,36 @@
+import { getStore } from './storage';
+
+/**
+ * Per-query caches (`query:embedding:*`, `query:rewrite:*`, `answer:cache:*`)
+ *
+ * Stores have no key scan, so every cached key is also recorded in
+ * `query:cache:keys`; purging deletes whatever that set lists. Entries expire
+ * on their own after 24h - purging is for when cached results are known to be
+ * wrong (e.g. after switching models or editing content).
+ */
+const QUERY_CACHE_INDEX = 'query:cache:keys';
+const QUERY_CACHE_TTL_SECONDS = 86400;
+
+/**
+ * Cache a value (24h unless `ttlSeconds` is given) and record the key for purging (one round trip)
+ */
+export async function setQueryCache(key: string, value: string, ttlSeconds: number = QUERY_CACHE_TTL_SECONDS): Promise<void> {
+  await getStore()
+    .pipeline()
+    .set(key, value, { ex: ttlSeconds })
+    .sadd(QUERY_CACHE_INDEX, key)
+    .exec();
+}
+
+/**
+ * Delete every cached query result; returns how many keys were tracked
+ */
+export async function purgeQueryCache(): Promise<number> {
+  const store = getStore();
+  const keys = await store.smembers(QUERY_CACHE_INDEX);
+  if (keys.length > 0) {
+    await store.del(...keys, QUERY_CACHE_INDEX);
+  }
+  console.log(`Purged ${keys.length} cached query results`);
+  return keys.length;
+}
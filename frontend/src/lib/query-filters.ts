@@ -0,0 +1,86 @@
+import { combineFilters, type MetadataFilter } from './metadata-filter';
+import type { Document } from './vector-store';
+
+/**
+ * Words that point a question at a category
+ * Only categories that actually exist in the corpus are used
+ */
+const CATEGORY_KEYWORDS: Record<string, string[]> = {
+  about: ['about you', 'who are you', 'yourself', 'introduce'],
+  projects: ['project', 'projects', 'built', 'side project', 'portfolio piece'],
+  skills: ['skill', 'skills', 'proficient', 'tech stack'],
+  experience: ['experience', 'worked', 'job', 'jobs', 'employment', 'internship', 'career'],
+  education: ['education', 'degree', 'university', 'college', 'school', 'studied', 'coursework', 'major'],
+  interests: ['interest', 'interests', 'hobby', 'hobbies', 'free time', 'passionate'],
+};
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Whole-word, case-insensitive phrase match that tolerates punctuation in
+ * the phrase itself (Node.js, AI/ML, C++)
+ */
+function mentions(query: string, phrase: string): boolean {
+  return new RegExp(`(^|[^a-z0-9])${escapeRegExp(phrase.toLowerCase())}($|[^a-z0-9])`).test(query);
+}
+
+/**
+ * Derive a metadata filter from the question
+ *
+ * Rule-based and corpus-driven, no LLM call:
+ * - category keywords ("projects", "degree", "hobbies") -> `category` eq/in
+ * - values of array metadata fields named in the question ("Redis" in `tech`)
+ *   -> `contains`, but only alongside a detected category whose documents
+ *   carry that field, so "do you know Redis?" isn't restricted to projects
+ *
+ * @example
+ * deriveMetadataFilter('what projects used Redis', docs)
+ * // { and: [{ field: 'category', eq: 'projects' }, { field: 'tech', contains: 'Redis' }] }
+ */
+export function deriveMetadataFilter(query: string, documents: Document[]): MetadataFilter | undefined {
+  const normalized = query.toLowerCase();
+  const categories = new Set(
+    documents
+      .map((doc) => doc.metadata?.category)
+      .filter((category): category is string => typeof category === 'string')
+  );
+
+  const matchedCategories = Array.from(categories).filter((category) => {
+    const keywords = CATEGORY_KEYWORDS[category] || [category];
+    return keywords.some((keyword) => mentions(normalized, keyword));
+  });
+
+  if (matchedCategories.length === 0) {
+    return undefined;
+  }
+
+  const categoryFilter: MetadataFilter = matchedCategories.length === 1
+    ? { field: 'category', eq: matchedCategories[0] }
+    : { field: 'category', in: matchedCategories };
+
+  // Array-valued string fields (e.g. tech) on documents in the matched categories
+  const fieldValues = new Map<string, Set<string>>();
+  for (const doc of documents) {
+    if (!matchedCategories.includes(doc.metadata?.category as string)) continue;
+    for (const [field, value] of Object.entries(doc.metadata || {})) {
+      if (!Array.isArray(value)) continue;
+      const values = fieldValues.get(field) || new Set<string>();
+      value.filter((v): v is string => typeof v === 'string').forEach((v) => values.add(v));
+      fieldValues.set(field, values);
+    }
+  }
+
+  const valueFilters: MetadataFilter[] = [];
+  for (const [field, values] of fieldValues) {
+    const matched = Array.from(values).filter((value) => mentions(normalized, value));
+    if (matched.length === 1) {
+      valueFilters.push({ field, contains: matched[0] });
+    } else if (matched.length > 1) {
+      valueFilters.push({ or: matched.map((value) => ({ field, contains: value })) });
+    }
+  }
+
+  return combineFilters(categoryFilter, ...valueFilters);
+}
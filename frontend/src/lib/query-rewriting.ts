@@ -0,0 +1,148 @@
+import { generateText } from 'ai';
+import { getStore } from './storage';
+import { generatePortfolioHash } from './embeddings';
+import { envNumber } from './env';
+import { getChatModel } from './chat-models';
+import { setQueryCache } from './query-cache';
+
+/**
+ * Conversation-aware query rewriting
+ *
+ * Follow-ups like "what stack did that one use?" embed poorly on their own.
+ * One LLM call condenses recent history + the follow-up into a standalone
+ * search query (and optionally alternative phrasings for multi-query retrieval).
+ *
+ * QUERY_REWRITE=auto (default) - only rewrite follow-ups that refer back to the conversation
+ * QUERY_REWRITE=always - rewrite whenever there is history
+ * QUERY_REWRITE=off - search with the raw message
+ * QUERY_EXPANSIONS - extra phrasings to search with (default 0)
+ * QUERY_REWRITE_MODEL - tried before the CHAT_MODELS chain (lib/chat-models.ts)
+ *
+ * Rewrites are cached for 24h under `query:rewrite:*`, like query embeddings.
+ */
+export type QueryRewriteMode = 'auto' | 'always' | 'off';
+
+export interface ConversationTurn {
+  role: string;
+  content: string;
+}
+
+export interface RewrittenQuery {
+  /** Standalone search query (the original message when not rewritten) */
+  query: string;
+  /** Alternative phrasings for multi-query retrieval */
+  expansions: string[];
+  /** True when history was used to resolve the follow-up */
+  rewritten: boolean;
+}
+
+// Words that usually point back at earlier turns
+const FOLLOW_UP_PATTERN = /\b(it|its|that|this|those|these|they|them|their|there|one|ones|he|she|him|her|also|else|more|another|same|what about|how about)\b/;
+
+const HISTORY_TURNS = 6;
+const MAX_TURN_LENGTH = 500;
+
+export function getQueryRewriteMode(): QueryRewriteMode {
+  const mode = process.env.QUERY_REWRITE;
+  return mode === 'always' || mode === 'off' ? mode : 'auto';
+}
+
+function shouldRewrite(query: string, history: ConversationTurn[], mode: QueryRewriteMode): boolean {
+  if (mode === 'off' || history.length === 0) return false;
+  if (mode === 'always') return true;
+  return FOLLOW_UP_PATTERN.test(query.toLowerCase());
+}
+
+function formatHistory(history: ConversationTurn[]): string {
+  return history
+    .slice(-HISTORY_TURNS)
+    .map(({ role, content }) => {
+      const text = content.replace(/\s+/g, ' ').trim();
+      return `${role === 'user' ? 'User' : 'Assistant'}: ${text.length > MAX_TURN_LENGTH ? `${text.slice(0, MAX_TURN_LENGTH)}…` : text}`;
+    })
+    .join('\n');
+}
+
+/**
+ * Parse `{"query": "...", "expansions": [...]}` out of the model reply
+ */
+function parseRewrite(text: string, expansions: number): Omit<RewrittenQuery, 'rewritten'> | null {
+  const match = text.match(/\{[\s\S]*\}/);
+  if (!match) return null;
+  try {
+    const parsed = JSON.parse(match[0]);
+    if (typeof parsed.query !== 'string' || !parsed.query.trim()) return null;
+    const alternatives: unknown[] = Array.isArray(parsed.expansions) ? parsed.expansions : [];
+    return {
+      query: parsed.query.trim(),
+      expansions: alternatives
+        .filter((q): q is string => typeof q === 'string' && q.trim().length > 0)
+        .map((q) => q.trim())
+        .slice(0, expansions),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Rewrite a follow-up into a standalone search query
+ *
+ * `history` is the conversation before `query` (oldest first). Never throws:
+ * if the model call fails the original query is used, so rewriting can't
+ * take the chat down.
+ */
+export async function rewriteQuery(
+  query: string,
+  history: ConversationTurn[],
+  options: { mode?: QueryRewriteMode; expansions?: number } = {}
+): Promise<RewrittenQuery> {
+  const mode = options.mode || getQueryRewriteMode();
+  const expansions = Math.max(0, options.expansions ?? envNumber('QUERY_EXPANSIONS', 0));
+  const original: RewrittenQuery = { query, expansions: [], rewritten: false };
+
+  const resolveFollowUp = shouldRewrite(query, history, mode);
+  if (!resolveFollowUp && expansions === 0) {
+    return original;
+  }
+
+  const conversation = resolveFollowUp ? formatHistory(history) : '';
+
+  try {
+    const chatModel = getChatModel(process.env.QUERY_REWRITE_MODEL, { applySettings: false });
+    const store = getStore();
+    const cacheKey = `query:rewrite:${await generatePortfolioHash(`${chatModel.id}\n${expansions}\n${conversation}\n${query.trim().toLowerCase()}`)}`;
+
+    // Stores auto-parse JSON, so the cached value may come back as an object or a string
+    const cached = await store.get<Omit<RewrittenQuery, 'rewritten'> | string>(cacheKey);
+    if (cached) {
+      const value = typeof cached === 'string' ? JSON.parse(cached) : cached;
+      console.log(`Using cached query rewrite: "${query}" -> "${value.query}"`);
+      return { ...value, rewritten: resolveFollowUp };
+    }
+
+    const prompt = `You turn chat messages into search queries for a portfolio knowledge base.
+${conversation ? `Rewrite the latest message as a standalone search query, resolving references to earlier turns (names, projects, "it", "that one").\n\nConversation:\n${conversation}\n` : 'Keep the query as it is.\n'}
+Latest message: ${query}
+
+${expansions > 0 ? `Also give ${expansions} alternative phrasing${expansions === 1 ? '' : 's'} that could match different wording in the documents.\n` : ''}Reply with only JSON: {"query": "...", "expansions": [${expansions > 0 ? '"..."' : ''}]}`;
+
+    const { text } = await generateText({
+      model: chatModel.model,
+      temperature: 0,
+      maxRetries: 0,
+      prompt,
+    });
+    const parsed = parseRewrite(text, expansions);
+    if (!parsed) {
+      throw new Error(`Unexpected rewrite reply: ${text.slice(0, 200)}`);
+    }
+
+    await setQueryCache(cacheKey, JSON.stringify(parsed));
+    console.log(`Rewrote query: "${query}" -> "${parsed.query}"${parsed.expansions.length ? ` (+${parsed.expansions.length} expansions)` : ''}`);
+    return { ...parsed, rewritten: resolveFollowUp };
+  } catch (error) {
+    console.warn('Query rewriting failed, using original query:', error instanceof Error ? error.message : error);
+    return original;
+  }
+}
@@ -0,0 +1,206 @@
+import { getStore, type StoreScript } from './storage';
+import { QuotaExceededError } from './errors';
+import { envNumber } from './env';
+
+/**
+ * Project-wide upstream quota ledger
+ *
+ * Per-IP rate limiting can't stop many visitors from collectively using up
+ * the Gemini quota. Every embedding and generation call reserves budget here
+ * first; once a budget is spent, calls fail fast with QuotaExceededError
+ * (hybrid search falls back to BM25, rewriting/reranking are skipped, chat
+ * returns 503) instead of letting the upstream answer 429/403.
+ *
+ * Counters use fixed windows aligned to the clock (UTC minute / UTC day),
+ * like the upstream quotas they mirror. A budget of 0 disables that check.
+ *
+ * Generation budgets are per provider of the chat model chain (lib/chat-models.ts):
+ * `generation` is Gemini, `openai-generation` is OpenAI. Models on a
+ * `compatible` (local) server aren't metered.
+ *
+ * QUOTA_EMBEDDING_RPM / QUOTA_EMBEDDING_RPD (default 15 / 1500)
+ * QUOTA_GENERATION_RPM / QUOTA_GENERATION_RPD (default 15 / 1500)
+ * QUOTA_OPENAI_GENERATION_RPM / QUOTA_OPENAI_GENERATION_RPD (default 0 = off - limits depend on the account tier)
+ * QUOTA_EMBEDDING_TPM / QUOTA_GENERATION_TPM / ..._TPD - token budgets (default 0 = off)
+ */
+export type QuotaKind = 'embedding' | 'generation' | 'openai-generation';
+
+export interface QuotaBudget {
+  requestsPerMinute: number;
+  requestsPerDay: number;
+  tokensPerMinute: number;
+  tokensPerDay: number;
+}
+
+export interface QuotaWindowUsage {
+  requests: number;
+  tokens: number;
+  requestLimit: number;
+  tokenLimit: number;
+  resetAt: number;
+}
+
+export type QuotaUsage = Record<QuotaKind, { minute: QuotaWindowUsage; day: QuotaWindowUsage }>;
+
+const QUOTA_KINDS: QuotaKind[] = ['embedding', 'generation', 'openai-generation'];
+
+// Default request budgets mirror the Gemini free tier
+const DEFAULT_REQUESTS: Record<QuotaKind, { perMinute: number; perDay: number }> = {
+  embedding: { perMinute: 15, perDay: 1500 },
+  generation: { perMinute: 15, perDay: 1500 },
+  'openai-generation': { perMinute: 0, perDay: 0 },
+};
+
+export function getQuotaBudget(kind: QuotaKind): QuotaBudget {
+  const prefix = `QUOTA_${kind.replace(/-/g, '_').toUpperCase()}`;
+  return {
+    requestsPerMinute: envNumber(`${prefix}_RPM`, DEFAULT_REQUESTS[kind].perMinute),
+    requestsPerDay: envNumber(`${prefix}_RPD`, DEFAULT_REQUESTS[kind].perDay),
+    tokensPerMinute: envNumber(`${prefix}_TPM`, 0),
+    tokensPerDay: envNumber(`${prefix}_TPD`, 0),
+  };
+}
+
+function getWindows(now: number) {
+  const minuteStart = Math.floor(now / 60000) * 60000;
+  const day = new Date(now).toISOString().slice(0, 10);
+  const dayEnd = Date.parse(`${day}T00:00:00.000Z`) + 86400000;
+  return {
+    minute: { id: String(minuteStart / 60000), resetAt: minuteStart + 60000, ttl: 120 },
+    day: { id: day, resetAt: dayEnd, ttl: 2 * 86400 },
+  };
+}
+
+function keysFor(kind: QuotaKind, now: number) {
+  const { minute, day } = getWindows(now);
+  return [
+    `quota:${kind}:requests:minute:${minute.id}`,
+    `quota:${kind}:requests:day:${day.id}`,
+    `quota:${kind}:tokens:minute:${minute.id}`,
+    `quota:${kind}:tokens:day:${day.id}`,
+  ];
+}
+
+/**
+ * KEYS: counters; ARGV: increment, limit, ttl (seconds) per key
+ * Checks every counter first and only increments when all fit, so a
+ * rejected call doesn't consume budget. Returns { 1, 0 } or { 0, index of the exhausted counter }.
+ */
+const CONSUME_LUA = `
+for i, key in ipairs(KEYS) do
+  local base = (i - 1) * 3
+  local current = tonumber(redis.call('GET', key) or '0')
+  local limit = tonumber(ARGV[base + 2])
+  if limit > 0 and current + tonumber(ARGV[base + 1]) > limit then
+    return { 0, i }
+  end
+end
+for i, key in ipairs(KEYS) do
+  local base = (i - 1) * 3
+  local increment = tonumber(ARGV[base + 1])
+  if increment > 0 then
+    redis.call('INCRBY', key, increment)
+    redis.call('EXPIRE', key, tonumber(ARGV[base + 3]))
+  end
+end
+return { 1, 0 }
+`;
+
+const consumeScript: StoreScript<number[]> = {
+  lua: CONSUME_LUA,
+  run(store, keys, args) {
+    const counters = keys.map((key, i) => ({
+      key,
+      current: Number(store.get(key) || 0),
+      increment: Number(args[i * 3]),
+      limit: Number(args[i * 3 + 1]),
+      ttl: Number(args[i * 3 + 2]),
+    }));
+    const exhausted = counters.findIndex((c) => c.limit > 0 && c.current + c.increment > c.limit);
+    if (exhausted !== -1) return [0, exhausted + 1];
+
+    for (const c of counters) {
+      if (c.increment > 0) store.set(c.key, c.current + c.increment, { ex: c.ttl });
+    }
+    return [1, 0];
+  },
+};
+
+async function consume(kind: QuotaKind, requests: number, tokens: number, enforce: boolean): Promise<void> {
+  const now = Date.now();
+  const budget = getQuotaBudget(kind);
+  const { minute, day } = getWindows(now);
+  const limits = enforce
+    ? [budget.requestsPerMinute, budget.requestsPerDay, budget.tokensPerMinute, budget.tokensPerDay]
+    : [0, 0, 0, 0];
+  const increments = [requests, requests, tokens, tokens];
+  const ttls = [minute.ttl, day.ttl, minute.ttl, day.ttl];
+
+  const args = increments.flatMap((increment, i) => [String(Math.ceil(increment)), String(limits[i]), String(ttls[i])]);
+  const [allowed, index] = (await getStore().eval(consumeScript, keysFor(kind, now), args)).map(Number);
+
+  if (allowed !== 1) {
+    const window = index % 2 === 1 ? minute : day;
+    const windowName = index % 2 === 1 ? 'minute' : 'day';
+    console.warn(`Quota budget exhausted: ${kind} ${index <= 2 ? 'requests' : 'tokens'} per ${windowName}`);
+    throw new QuotaExceededError(kind, windowName, Math.max(1, Math.ceil((window.resetAt - now) / 1000)));
+  }
+}
+
+/**
+ * Reserve budget before an upstream call
+ * Throws QuotaExceededError (without consuming anything) if any budget would be exceeded
+ */
+export async function reserveQuota(kind: QuotaKind, requests: number = 1, estimatedTokens: number = 0): Promise<void> {
+  await consume(kind, requests, estimatedTokens, true);
+}
+
+/**
+ * Add tokens reported after a call (e.g. generated output tokens)
+ * Never throws - accounting must not fail a response that already succeeded
+ */
+export async function recordTokenUsage(kind: QuotaKind, tokens: number | undefined): Promise<void> {
+  if (!tokens || tokens <= 0) return;
+  try {
+    await consume(kind, 0, tokens, false);
+  } catch (error) {
+    console.error('Failed to record token usage:', error);
+  }
+}
+
+/**
+ * Current counters and budgets for the status endpoint
+ */
+export async function getQuotaUsage(): Promise<QuotaUsage> {
+  const now = Date.now();
+  const { minute, day } = getWindows(now);
+
+  const pipeline = getStore().pipeline();
+  for (const kind of QUOTA_KINDS) {
+    for (const key of keysFor(kind, now)) pipeline.get(key);
+  }
+  const values = (await pipeline.exec()).map((value) => Number(value || 0));
+
+  const usage = {} as QuotaUsage;
+  QUOTA_KINDS.forEach((kind, i) => {
+    const [minuteRequests, dayRequests, minuteTokens, dayTokens] = values.slice(i * 4, i * 4 + 4);
+    const budget = getQuotaBudget(kind);
+    usage[kind] = {
+      minute: {
+        requests: minuteRequests,
+        tokens: minuteTokens,
+        requestLimit: budget.requestsPerMinute,
+        tokenLimit: budget.tokensPerMinute,
+        resetAt: minute.resetAt,
+      },
+      day: {
+        requests: dayRequests,
+        tokens: dayTokens,
+        requestLimit: budget.requestsPerDay,
+        tokenLimit: budget.tokensPerDay,
+        resetAt: day.resetAt,
+      },
+    };
+  });
+  return usage;
+}
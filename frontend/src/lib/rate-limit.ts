@@ -1,66 +1,305 @@
-import { redis } from './redis';
+import { getStore, type StoreScript } from './storage';
+import { envNumber } from './env';
+
+/**
+ * Rate limiting using the configured store (Upstash Redis in production)
+ * Prevents spam and API abuse
+ *
+ * Gemini API Free Tier Limits:
+ * - 15 requests per minute (RPM)
+ * - 1,500 requests per day
+ *
+ * Every identifier is checked against several tiers at once (per-minute and
+ * per-day by default). All tiers are evaluated and consumed in one atomic
+ * script, so concurrent requests can't race past a limit and a request
+ * denied by one tier doesn't use up the others.
+ *
+ * Algorithms (RATE_LIMIT_ALGORITHM):
+ * - sliding-window (default): log of request timestamps, no 2x burst at window edges
+ * - token-bucket: `limit` tokens refilled evenly over the window, allows short bursts
+ */
+export type RateLimitAlgorithm = 'sliding-window' | 'token-bucket';
+
+/**
+ * open: allow requests when the store is unreachable
+ * closed (default): reject them - protects the upstream quota over availability
+ */
+export type RateLimitFailMode = 'open' | 'closed';
+
+export interface RateLimitTier {
+  /** Used in the store key, e.g. "minute" -> ratelimit:minute:{identifier} */
+  name: string;
+  limit: number;
+  windowSeconds: number;
+  algorithm?: RateLimitAlgorithm;
+}
+
+export interface RateLimitTierResult {
+  tier: RateLimitTier;
+  allowed: boolean;
+  remaining: number;
+  resetAt: number;
+  retryAfter?: number;
+}
 
 export interface RateLimitResult {
   allowed: boolean;
+  /** Limit of the most constrained tier (the denying one, else the one with the fewest requests left) */
+  limit: number;
   remaining: number;
   resetAt: number;
+  /** Seconds until a request would be allowed again */
   retryAfter?: number;
+  tiers: RateLimitTierResult[];
+  /** True when the store failed and `failMode` decided the outcome */
+  degraded?: boolean;
+}
+
+export function getRateLimitAlgorithm(): RateLimitAlgorithm {
+  return process.env.RATE_LIMIT_ALGORITHM === 'token-bucket' ? 'token-bucket' : 'sliding-window';
+}
+
+export function getRateLimitFailMode(): RateLimitFailMode {
+  return process.env.RATE_LIMIT_FAIL_MODE === 'open' ? 'open' : 'closed';
 }
 
 /**
- * Rate limiting using Upstash Redis
- * Prevents spam and API abuse
- * 
- * Gemini API Free Tier Limits:
- * - 15 requests per minute (RPM)
- * - 1,500 requests per day
+ * RATE_LIMIT_REQUESTS_PER_MINUTE (default 10) and RATE_LIMIT_REQUESTS_PER_DAY (default 1000),
+ * leaving a buffer below Gemini's 15 RPM / 1,500 RPD
+ */
+export function getRateLimitTiers(): RateLimitTier[] {
+  const algorithm = getRateLimitAlgorithm();
+  return [
+    { name: 'minute', limit: envNumber('RATE_LIMIT_REQUESTS_PER_MINUTE', 10), windowSeconds: 60, algorithm },
+    { name: 'day', limit: envNumber('RATE_LIMIT_REQUESTS_PER_DAY', 1000), windowSeconds: 86400, algorithm },
+  ];
+}
+
+/**
+ * KEYS: one per tier
+ * ARGV: now (ms), request id, then algorithm, limit, window (ms) per tier
+ * Returns allowed (0/1), remaining, resetAt (ms), retryAfter (ms) per tier, flattened
+ */
+const RATE_LIMIT_LUA = `
+local now = tonumber(ARGV[1])
+local member = ARGV[2]
+local states = {}
+local allowed = true
+
+for i, key in ipairs(KEYS) do
+  local base = 2 + (i - 1) * 3
+  local algorithm = ARGV[base + 1]
+  local limit = tonumber(ARGV[base + 2])
+  local window = tonumber(ARGV[base + 3])
+  local state = { algorithm = algorithm, limit = limit, window = window }
+
+  if algorithm == 'token-bucket' then
+    local stored = redis.call('HMGET', key, 'tokens', 'updatedAt')
+    local tokens = tonumber(stored[1]) or limit
+    local updatedAt = tonumber(stored[2]) or now
+    state.rate = limit / window
+    state.tokens = math.min(limit, tokens + math.max(0, now - updatedAt) * state.rate)
+    state.allowed = state.tokens >= 1
+  else
+    redis.call('ZREMRANGEBYSCORE', key, '-inf', now - window)
+    state.count = redis.call('ZCARD', key)
+    local oldest = redis.call('ZRANGE', key, 0, 0, 'WITHSCORES')
+    state.oldest = tonumber(oldest[2]) or now
+    state.allowed = state.count < limit
+  end
+
+  if not state.allowed then allowed = false end
+  states[i] = state
+end
+
+local out = {}
+for i, key in ipairs(KEYS) do
+  local s = states[i]
+  local remaining, resetAt, retryAfter = 0, now, 0
+
+  if s.algorithm == 'token-bucket' then
+    local tokens = s.tokens
+    if allowed then
+      tokens = tokens - 1
+      redis.call('HSET', key, 'tokens', tostring(tokens), 'updatedAt', tostring(now))
+      redis.call('PEXPIRE', key, s.window)
+    end
+    if s.allowed then
+      remaining = math.floor(tokens)
+      resetAt = now + math.ceil((s.limit - tokens) / s.rate)
+    else
+      retryAfter = math.ceil((1 - tokens) / s.rate)
+      resetAt = now + retryAfter
+    end
+  else
+    local count = s.count
+    if allowed then
+      redis.call('ZADD', key, now, member)
+      redis.call('PEXPIRE', key, s.window)
+      count = count + 1
+    end
+    if s.allowed then
+      remaining = s.limit - count
+      resetAt = (s.count > 0 and s.oldest or now) + s.window
+    else
+      resetAt = s.oldest + s.window
+      retryAfter = resetAt - now
+    end
+  end
+
+  table.insert(out, s.allowed and 1 or 0)
+  table.insert(out, remaining)
+  table.insert(out, resetAt)
+  table.insert(out, retryAfter)
+end
+return out
+`;
+
+interface TokenBucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * Same algorithm as RATE_LIMIT_LUA for in-process stores
+ * Sliding-window logs are stored as timestamp arrays, buckets as { tokens, updatedAt }
+ */
+const rateLimitScript: StoreScript<number[]> = {
+  lua: RATE_LIMIT_LUA,
+  run(store, keys, args) {
+    const now = Number(args[0]);
+    const states = keys.map((key, i) => {
+      const algorithm = args[2 + i * 3];
+      const limit = Number(args[3 + i * 3]);
+      const window = Number(args[4 + i * 3]);
+
+      if (algorithm === 'token-bucket') {
+        const stored = store.get<TokenBucketState>(key);
+        const rate = limit / window;
+        const tokens = Math.min(limit, (stored?.tokens ?? limit) + Math.max(0, now - (stored?.updatedAt ?? now)) * rate);
+        return { key, algorithm, limit, window, rate, tokens, log: [] as number[], allowed: tokens >= 1 };
+      }
+
+      const log = (store.get<number[]>(key) || []).filter((timestamp) => timestamp > now - window);
+      return { key, algorithm, limit, window, rate: 0, tokens: 0, log, allowed: log.length < limit };
+    });
+
+    const allowed = states.every((state) => state.allowed);
+    return states.flatMap((s) => {
+      let remaining = 0;
+      let resetAt = now;
+      let retryAfter = 0;
+      const ex = Math.ceil(s.window / 1000);
+
+      if (s.algorithm === 'token-bucket') {
+        let tokens = s.tokens;
+        if (allowed) {
+          tokens -= 1;
+          store.set(s.key, { tokens, updatedAt: now }, { ex });
+        }
+        if (s.allowed) {
+          remaining = Math.floor(tokens);
+          resetAt = now + Math.ceil((s.limit - tokens) / s.rate);
+        } else {
+          retryAfter = Math.ceil((1 - tokens) / s.rate);
+          resetAt = now + retryAfter;
+        }
+      } else {
+        const oldest = s.log.length > 0 ? Math.min(...s.log) : now;
+        let count = s.log.length;
+        if (allowed) {
+          store.set(s.key, [...s.log, now], { ex });
+          count += 1;
+        }
+        if (s.allowed) {
+          remaining = s.limit - count;
+          resetAt = oldest + s.window;
+        } else {
+          resetAt = oldest + s.window;
+          retryAfter = resetAt - now;
+        }
+      }
+
+      return [s.allowed ? 1 : 0, remaining, resetAt, retryAfter];
+    });
+  },
+};
+
+/**
+ * Pick the tier that decides the headers: the first denying tier,
+ * else the one with the fewest requests left
+ */
+function summarize(tiers: RateLimitTierResult[], degraded?: boolean): RateLimitResult {
+  const denied = tiers.find((tier) => !tier.allowed);
+  const binding = denied || tiers.reduce((a, b) => (b.remaining < a.remaining ? b : a));
+  return {
+    allowed: !denied,
+    limit: binding.tier.limit,
+    remaining: binding.remaining,
+    resetAt: binding.resetAt,
+    retryAfter: denied ? Math.max(...tiers.filter((t) => !t.allowed).map((t) => t.retryAfter || 1)) : undefined,
+    tiers,
+    degraded,
+  };
+}
+
+/**
+ * Check (and count) a request against every tier atomically
  */
 export async function checkRateLimit(
   identifier: string,
-  limit: number = 10,
-  windowSeconds: number = 60
+  tiers: RateLimitTier[] = getRateLimitTiers(),
+  failMode: RateLimitFailMode = getRateLimitFailMode()
 ): Promise<RateLimitResult> {
-  const key = `ratelimit:${identifier}`;
-  
+  const now = Date.now();
+
   try {
-    // Upstash syntax: returns value directly, or null
-    const current = await redis.get<number>(key);
-    const count = current ? Number(current) : 0;
-    
-    if (count >= limit) {
-      const ttl = await redis.ttl(key);
+    const keys = tiers.map((tier) => `ratelimit:${tier.name}:${identifier}`);
+    const args = [String(now), crypto.randomUUID()];
+    for (const tier of tiers) {
+      args.push(tier.algorithm || getRateLimitAlgorithm(), String(tier.limit), String(tier.windowSeconds * 1000));
+    }
+
+    const raw = await getStore().eval(rateLimitScript, keys, args);
+    const values = raw.map(Number);
+
+    return summarize(tiers.map((tier, i) => {
+      const [allowed, remaining, resetAt, retryAfterMs] = values.slice(i * 4, i * 4 + 4);
       return {
-        allowed: false,
-        remaining: 0,
-        resetAt: Date.now() + (ttl * 1000),
-        retryAfter: ttl,
+        tier,
+        allowed: allowed === 1,
+        remaining: Math.max(0, remaining),
+        resetAt,
+        retryAfter: allowed === 1 ? undefined : Math.max(1, Math.ceil(retryAfterMs / 1000)),
       };
-    }
-    
-    // Upstash syntax: set(key, value, { ex: seconds })
-    if (count === 0) {
-      await redis.set(key, 1, { ex: windowSeconds });
-    } else {
-      await redis.incr(key);
-    }
-    
-    const ttl = await redis.ttl(key);
-    const newCount = count + 1;
-    
-    return {
-      allowed: true,
-      remaining: Math.max(0, limit - newCount),
-      resetAt: Date.now() + (ttl * 1000),
-    };
+    }));
   } catch (error) {
-    console.error('Rate limit check error:', error);
-    // Fail open on error
-    return {
-      allowed: true,
-      remaining: limit - 1,
-      resetAt: Date.now() + (windowSeconds * 1000),
-    };
+    console.error(`Rate limit check error (failing ${failMode}):`, error);
+    return summarize(tiers.map((tier) => ({
+      tier,
+      allowed: failMode === 'open',
+      remaining: failMode === 'open' ? tier.limit - 1 : 0,
+      resetAt: now + tier.windowSeconds * 1000,
+      retryAfter: failMode === 'open' ? undefined : 60,
+    })), true);
+  }
+}
+
+/**
+ * `X-RateLimit-*` headers for every response (not only 429s)
+ * Reset is a Unix timestamp in milliseconds; Policy lists every tier as "limit;w=seconds"
+ */
+export function getRateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const headers: Record<string, string> = {
+    'X-RateLimit-Limit': String(result.limit),
+    'X-RateLimit-Remaining': String(result.remaining),
+    'X-RateLimit-Reset': String(result.resetAt),
+    'X-RateLimit-Policy': result.tiers.map(({ tier }) => `${tier.limit};w=${tier.windowSeconds}`).join(', '),
+  };
+  if (!result.allowed) {
+    headers['Retry-After'] = String(result.retryAfter || 60);
   }
+  return headers;
 }
 
 /**
@@ -1,11 +1,21 @@
 import { Redis } from '@upstash/redis';
 
-export const redis = new Redis({
-  url: process.env.UPSTASH_REDIS_REST_URL!,
-  token: process.env.UPSTASH_REDIS_REST_TOKEN!,
-});
+let client: Redis | null = null;
 
-// Helper for backward compatibility
-export async function getRedisClient() {
-  return redis;
+/**
+ * Lazily create the Upstash client so other storage backends
+ * can run without Upstash credentials
+ */
+export function getRedisClient(): Redis {
+  if (!client) {
+    const url = process.env.UPSTASH_REDIS_REST_URL;
+    const token = process.env.UPSTASH_REDIS_REST_TOKEN;
+    if (!url || !token) {
+      throw new Error(
+        'UPSTASH_REDIS_REST_URL and UPSTASH_REDIS_REST_TOKEN must be set (or use STORAGE_BACKEND=memory|file).'
+      );
+    }
+    client = new Redis({ url, token });
+  }
+  return client;
 }
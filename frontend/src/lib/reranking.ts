@@ -0,0 +1,139 @@
+import { generateText } from 'ai';
+import { tokenize } from './tokens';
+import { getChatModel } from './chat-models';
+import type { SearchResult } from './vector-store';
+
+/**
+ * Optional second-pass scoring of retrieval candidates
+ *
+ * RERANKER=none (default) - keep retrieval order
+ * RERANKER=local - query/chunk cross-scorer (term coverage + phrase matches), no API calls
+ * RERANKER=llm - one LLM call scores every candidate 0-10 (RERANKER_MODEL, tried before the CHAT_MODELS chain)
+ *
+ * Rerankers set `score` (0..1) and `scores.rerank` on each result and return them sorted.
+ */
+export type RerankerName = 'none' | 'local' | 'llm';
+
+export interface Reranker {
+  readonly name: RerankerName;
+  rerank(query: string, results: SearchResult[]): Promise<SearchResult[]>;
+}
+
+function withRerankScores(results: SearchResult[], scores: number[]): SearchResult[] {
+  return results
+    .map((result, i) => ({
+      ...result,
+      score: scores[i],
+      scores: { ...result.scores, rerank: scores[i] },
+    }))
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Retrieval score scaled to 0..1 by the best candidate (RRF/BM25 scores are unbounded)
+ */
+function normalizedScores(results: SearchResult[]): number[] {
+  const max = Math.max(0, ...results.map((r) => r.score));
+  return results.map((r) => (max > 0 ? r.score / max : 0));
+}
+
+/**
+ * Scores query and chunk together: how many query terms the chunk covers and
+ * how many adjacent query term pairs appear as phrases, blended with the
+ * retrieval score so semantic-only matches aren't dropped
+ */
+export class LocalReranker implements Reranker {
+  readonly name = 'local' as const;
+
+  async rerank(query: string, results: SearchResult[]): Promise<SearchResult[]> {
+    const queryTerms = tokenize(query);
+    const uniqueTerms = Array.from(new Set(queryTerms));
+    const queryPairs = queryTerms.slice(1).map((term, i) => `${queryTerms[i]} ${term}`);
+    const retrieval = normalizedScores(results);
+
+    const scores = results.map((result, i) => {
+      if (uniqueTerms.length === 0) return retrieval[i];
+
+      const chunkTerms = tokenize(result.document.content);
+      const termSet = new Set(chunkTerms);
+      const pairSet = new Set(chunkTerms.slice(1).map((term, j) => `${chunkTerms[j]} ${term}`));
+
+      const coverage = uniqueTerms.filter((term) => termSet.has(term)).length / uniqueTerms.length;
+      const lexical = queryPairs.length > 0
+        ? 0.7 * coverage + 0.3 * (queryPairs.filter((pair) => pairSet.has(pair)).length / queryPairs.length)
+        : coverage;
+
+      return 0.5 * lexical + 0.5 * retrieval[i];
+    });
+
+    return withRerankScores(results, scores);
+  }
+}
+
+/**
+ * Asks the chat model to grade each candidate's relevance in a single call
+ * Falls back to retrieval order if the call fails or the reply can't be parsed,
+ * so a reranker outage never fails the chat request
+ */
+export class LlmReranker implements Reranker {
+  readonly name = 'llm' as const;
+  /** Tried before the CHAT_MODELS chain; undefined uses the chain as is */
+  readonly model?: string;
+
+  constructor(model?: string) {
+    this.model = model || process.env.RERANKER_MODEL || undefined;
+  }
+
+  async rerank(query: string, results: SearchResult[]): Promise<SearchResult[]> {
+    if (results.length === 0) return results;
+
+    const passages = results
+      .map((result, i) => `[${i}] ${result.document.content.replace(/\s+/g, ' ').slice(0, 800)}`)
+      .join('\n');
+
+    const prompt = `Rate how relevant each passage is to the question on a scale of 0 (unrelated) to 10 (directly answers it).
+Reply with only a JSON array of ${results.length} numbers, one per passage, in order.
+
+Question: ${query}
+
+Passages:
+${passages}`;
+
+    try {
+      const { text } = await generateText({
+        model: getChatModel(this.model, { applySettings: false }).model,
+        temperature: 0,
+        maxRetries: 0,
+        prompt,
+      });
+      const match = text.match(/\[[\s\S]*\]/);
+      const grades: unknown = match ? JSON.parse(match[0]) : null;
+      if (!Array.isArray(grades) || grades.length !== results.length || !grades.every((g) => typeof g === 'number')) {
+        throw new Error(`Unexpected reranker reply: ${text.slice(0, 200)}`);
+      }
+
+      return withRerankScores(results, grades.map((g: number) => Math.min(10, Math.max(0, g)) / 10));
+    } catch (error) {
+      console.warn('LLM reranking failed, keeping retrieval order:', error instanceof Error ? error.message : error);
+      return results;
+    }
+  }
+}
+
+/**
+ * Reranker selected by RERANKER, or null when reranking is disabled
+ */
+export function createReranker(name?: RerankerName): Reranker | null {
+  const selected = name || (process.env.RERANKER as RerankerName | undefined) || 'none';
+
+  switch (selected) {
+    case 'none':
+      return null;
+    case 'local':
+      return new LocalReranker();
+    case 'llm':
+      return new LlmReranker();
+    default:
+      throw new Error(`Unknown RERANKER "${selected}". Expected none, local or llm.`);
+  }
+}
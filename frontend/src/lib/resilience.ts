@@ -0,0 +1,324 @@
+import { APICallError, wrapLanguageModel } from 'ai';
+import { getStore, type StoreScript } from './storage';
+import { CircuitOpenError, RateLimitError, UpstreamError } from './errors';
+import { envNumber } from './env';
+
+/**
+ * Shared resilience layer for upstream API calls
+ *
+ * `callUpstream(service, fn)`:
+ * 1. circuit breaker - short-circuits with CircuitOpenError while the service is cooling down
+ * 2. retry - transient failures (5xx, 408, network) with exponential backoff + full jitter;
+ *    429s only when Retry-After is short enough to wait for inside the request
+ * 3. outcome - transient/rate-limit failures count toward opening the breaker
+ *
+ * Quota errors (ours or the upstream's "limit: 0"), 4xx and parse errors are
+ * never retried: they'd fail again and burn quota.
+ *
+ * Breaker state lives in the store (`circuit:{service}`), so every Edge
+ * instance sees the same state.
+ *
+ * RETRY_MAX_ATTEMPTS (3), RETRY_BASE_DELAY_MS (250), RETRY_MAX_DELAY_MS (4000),
+ * RETRY_MAX_RETRY_AFTER_SECONDS (5)
+ * CIRCUIT_FAILURE_THRESHOLD (5), CIRCUIT_WINDOW_SECONDS (60), CIRCUIT_COOLDOWN_SECONDS (30)
+ */
+
+export interface RetryOptions {
+  /** Total attempts including the first */
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** Longest Retry-After worth waiting for; longer rate limits fail immediately */
+  maxRetryAfterSeconds: number;
+}
+
+export interface CircuitBreakerOptions {
+  /** Failures within the window that open the circuit */
+  failureThreshold: number;
+  windowSeconds: number;
+  cooldownSeconds: number;
+}
+
+export function getRetryOptions(): RetryOptions {
+  return {
+    maxAttempts: Math.max(1, envNumber('RETRY_MAX_ATTEMPTS', 3)),
+    baseDelayMs: envNumber('RETRY_BASE_DELAY_MS', 250),
+    maxDelayMs: envNumber('RETRY_MAX_DELAY_MS', 4000),
+    maxRetryAfterSeconds: envNumber('RETRY_MAX_RETRY_AFTER_SECONDS', 5),
+  };
+}
+
+export function getCircuitBreakerOptions(): CircuitBreakerOptions {
+  return {
+    failureThreshold: Math.max(1, envNumber('CIRCUIT_FAILURE_THRESHOLD', 5)),
+    windowSeconds: envNumber('CIRCUIT_WINDOW_SECONDS', 60),
+    cooldownSeconds: envNumber('CIRCUIT_COOLDOWN_SECONDS', 30),
+  };
+}
+
+/**
+ * Seconds from a Retry-After header (delta-seconds or HTTP date)
+ */
+function parseRetryAfter(value: string | undefined | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
+
+type FailureKind = 'rate-limit' | 'transient' | 'permanent';
+
+function classify(error: unknown): { kind: FailureKind; retryAfter?: number } {
+  if (error instanceof RateLimitError) {
+    return { kind: 'rate-limit', retryAfter: error.retryAfter };
+  }
+  if (error instanceof UpstreamError) {
+    return { kind: error.upstreamStatus >= 500 || error.upstreamStatus === 408 ? 'transient' : 'permanent' };
+  }
+  if (APICallError.isInstance(error)) {
+    if (error.statusCode === 429) {
+      return { kind: 'rate-limit', retryAfter: parseRetryAfter(error.responseHeaders?.['retry-after']) ?? 60 };
+    }
+    if (error.statusCode === undefined || error.statusCode >= 500 || error.statusCode === 408) {
+      return { kind: 'transient' };
+    }
+    return { kind: 'permanent' };
+  }
+  // fetch() rejects with a TypeError on network failures
+  if (error instanceof TypeError) {
+    return { kind: 'transient' };
+  }
+  return { kind: 'permanent' };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Retry transient failures with bounded exponential backoff and full jitter
+ */
+export async function withRetry<T>(fn: () => PromiseLike<T>, options: RetryOptions = getRetryOptions()): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      const { kind, retryAfter } = classify(error);
+      if (attempt >= options.maxAttempts || kind === 'permanent') throw error;
+
+      let delayMs: number;
+      if (kind === 'rate-limit') {
+        // Honor Retry-After, but don't hold the request open for long waits
+        if (retryAfter === undefined || retryAfter > options.maxRetryAfterSeconds) throw error;
+        delayMs = retryAfter * 1000;
+      } else {
+        const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** (attempt - 1));
+        delayMs = Math.random() * ceiling;
+      }
+
+      console.warn(`Upstream call failed (${kind}), retrying in ${Math.round(delayMs)}ms (attempt ${attempt + 1}/${options.maxAttempts})`);
+      await sleep(delayMs);
+    }
+  }
+}
+
+/**
+ * KEYS: circuit key; ARGV: now (ms), trial timeout (ms)
+ * Returns allowed (0/1), retryAfter (ms), dirty (1 when a success must be recorded)
+ */
+const ACQUIRE_LUA = `
+local stored = redis.call('HMGET', KEYS[1], 'state', 'failures', 'openUntil')
+local state = stored[1] or 'closed'
+local now = tonumber(ARGV[1])
+local openUntil = tonumber(stored[3]) or 0
+if state == 'open' or state == 'half-open' then
+  if now < openUntil then return { 0, openUntil - now, 0 } end
+  redis.call('HSET', KEYS[1], 'state', 'half-open', 'openUntil', tostring(now + tonumber(ARGV[2])))
+  return { 1, 0, 1 }
+end
+return { 1, 0, (tonumber(stored[2]) or 0) > 0 and 1 or 0 }
+`;
+
+/**
+ * KEYS: circuit key; ARGV: now (ms), success (0/1), threshold, window (ms), cooldown (ms), ttl (s)
+ * Returns 1 when this failure opened the circuit
+ */
+const RECORD_LUA = `
+if ARGV[2] == '1' then
+  redis.call('DEL', KEYS[1])
+  return 0
+end
+local stored = redis.call('HMGET', KEYS[1], 'state', 'failures', 'windowStart', 'openUntil')
+local now = tonumber(ARGV[1])
+local state = stored[1] or 'closed'
+local failures = tonumber(stored[2]) or 0
+local windowStart = tonumber(stored[3]) or now
+local openUntil = state == 'open' and (tonumber(stored[4]) or 0) or 0
+if now - windowStart > tonumber(ARGV[4]) then
+  failures = 0
+  windowStart = now
+end
+failures = failures + 1
+local opened = 0
+if state == 'half-open' or failures >= tonumber(ARGV[3]) then
+  state = 'open'
+  opened = 1
+  openUntil = math.max(openUntil, now + tonumber(ARGV[5]))
+end
+redis.call('HSET', KEYS[1], 'state', state, 'failures', tostring(failures), 'windowStart', tostring(windowStart),
+  'openUntil', tostring(openUntil))
+redis.call('EXPIRE', KEYS[1], tonumber(ARGV[6]))
+return opened
+`;
+
+interface CircuitState {
+  state: 'closed' | 'open' | 'half-open';
+  failures: number;
+  windowStart: number;
+  openUntil: number;
+}
+
+const acquireScript: StoreScript<number[]> = {
+  lua: ACQUIRE_LUA,
+  run(store, [key], [now, trialTimeout]) {
+    const current = store.get<CircuitState>(key);
+    if (current && current.state !== 'closed') {
+      if (Number(now) < current.openUntil) return [0, current.openUntil - Number(now), 0];
+      store.set(key, { ...current, state: 'half-open', openUntil: Number(now) + Number(trialTimeout) });
+      return [1, 0, 1];
+    }
+    return [1, 0, current && current.failures > 0 ? 1 : 0];
+  },
+};
+
+const recordScript: StoreScript<number> = {
+  lua: RECORD_LUA,
+  run(store, [key], [nowArg, success, threshold, windowMs, cooldownMs, ttl]) {
+    if (success === '1') {
+      store.del(key);
+      return 0;
+    }
+    const now = Number(nowArg);
+    const current = store.get<CircuitState>(key);
+    let failures = current?.failures ?? 0;
+    let windowStart = current?.windowStart ?? now;
+    if (now - windowStart > Number(windowMs)) {
+      failures = 0;
+      windowStart = now;
+    }
+    failures += 1;
+    const opened = current?.state === 'half-open' || failures >= Number(threshold);
+    // A late failure while already open (e.g. an in-flight call) must not cut the cooldown short
+    const openUntil = current?.state === 'open' ? current.openUntil : 0;
+    store.set(key, {
+      state: opened ? 'open' : current?.state ?? 'closed',
+      failures,
+      windowStart,
+      openUntil: opened ? Math.max(openUntil, now + Number(cooldownMs)) : openUntil,
+    }, { ex: Number(ttl) });
+    return opened ? 1 : 0;
+  },
+};
+
+/**
+ * Circuit breaker shared across instances through the store
+ *
+ * closed -> open after `failureThreshold` failures within `windowSeconds`
+ * open -> half-open after `cooldownSeconds`: one trial call goes through
+ * half-open -> closed on success, open again on failure
+ *
+ * If the store itself fails, calls are allowed (the breaker must not become
+ * a second point of failure).
+ */
+export class CircuitBreaker {
+  private readonly key: string;
+
+  constructor(
+    readonly service: string,
+    private readonly options: CircuitBreakerOptions = getCircuitBreakerOptions()
+  ) {
+    this.key = `circuit:${service}`;
+  }
+
+  /**
+   * Throws CircuitOpenError while open; returns whether the outcome must be recorded
+   */
+  async acquire(): Promise<{ dirty: boolean }> {
+    let result: number[];
+    try {
+      result = await getStore().eval(acquireScript, [this.key], [
+        String(Date.now()),
+        String(this.options.cooldownSeconds * 1000),
+      ]);
+    } catch (error) {
+      console.error(`Circuit breaker ${this.service} unavailable, allowing call:`, error);
+      return { dirty: false };
+    }
+
+    const [allowed, retryAfterMs, dirty] = result.map(Number);
+    if (allowed !== 1) {
+      throw new CircuitOpenError(this.service, Math.max(1, Math.ceil(retryAfterMs / 1000)));
+    }
+    return { dirty: dirty === 1 };
+  }
+
+  async record(success: boolean): Promise<void> {
+    try {
+      const opened = await getStore().eval(recordScript, [this.key], [
+        String(Date.now()),
+        success ? '1' : '0',
+        String(this.options.failureThreshold),
+        String(this.options.windowSeconds * 1000),
+        String(this.options.cooldownSeconds * 1000),
+        String(Math.max(this.options.windowSeconds, this.options.cooldownSeconds) * 2),
+      ]);
+      if (Number(opened) === 1) {
+        console.warn(`Circuit breaker opened for ${this.service} (cooldown ${this.options.cooldownSeconds}s)`);
+      }
+    } catch (error) {
+      console.error(`Failed to record circuit breaker outcome for ${this.service}:`, error);
+    }
+  }
+}
+
+/**
+ * Call an upstream API through the circuit breaker with retries
+ * `service` names the breaker, e.g. "embedding:gemini"
+ */
+export async function callUpstream<T>(
+  service: string,
+  fn: () => PromiseLike<T>,
+  retryOptions: RetryOptions = getRetryOptions()
+): Promise<T> {
+  const breaker = new CircuitBreaker(service);
+  const { dirty } = await breaker.acquire();
+
+  try {
+    const result = await withRetry(fn, retryOptions);
+    // Only write when there's something to reset - keeps the happy path at one store command
+    if (dirty) await breaker.record(true);
+    return result;
+  } catch (error) {
+    if (classify(error).kind !== 'permanent') {
+      await breaker.record(false);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Language model whose calls go through `callUpstream`
+ * For streams, only establishing the stream is retried - not failures mid-stream.
+ * Use with `maxRetries: 0` so the AI SDK doesn't retry on top.
+ */
+export function withResilience(model: Parameters<typeof wrapLanguageModel>[0]['model'], service: string): ReturnType<typeof wrapLanguageModel> {
+  return wrapLanguageModel({
+    model,
+    middleware: {
+      specificationVersion: 'v3',
+      wrapGenerate: ({ doGenerate }) => callUpstream(service, doGenerate),
+      wrapStream: ({ doStream }) => callUpstream(service, doStream),
+    },
+  });
+}
@@ -0,0 +1,174 @@
+import { searchSimilarDocuments, type SearchOptions, type SearchResult, type SearchTrace } from './vector-store';
+import { createReranker, type RerankerName } from './reranking';
+import { tokenize } from './tokens';
+import { envNumber } from './env';
+
+/**
+ * Retrieval pipeline feeding the chat prompt
+ *
+ * 1. candidates: top `candidatePoolSize` chunks from hybrid/vector/lexical search
+ *    (per query when `expansions` are given, merged by best score)
+ * 2. rerank (optional): re-score candidates with the query (`/lib/reranking.ts`)
+ * 3. min score: drop candidates at or below `minScore` (after reranking)
+ * 4. diversity: pick up to `maxResults` with MMR so overlapping chunks of the
+ *    same passage don't crowd out other sources
+ */
+export interface RetrievalOptions extends SearchOptions {
+  /** Candidates fetched before reranking/diversity (RETRIEVAL_CANDIDATES, default 20) */
+  candidatePoolSize?: number;
+  /** Final score cutoff (RETRIEVAL_MIN_SCORE, default 0) - reranked scores are 0..1 */
+  minScore?: number;
+  /** Chunks passed to the model (RETRIEVAL_MAX_RESULTS, default 3) */
+  maxResults?: number;
+  /** MMR trade-off: 1 = relevance only, 0 = diversity only (RETRIEVAL_MMR_LAMBDA, default 0.7) */
+  mmrLambda?: number;
+  /** Defaults to RERANKER (none) */
+  reranker?: RerankerName;
+  /** Alternative phrasings searched alongside the query (multi-query retrieval) */
+  expansions?: string[];
+  /** Called with what each stage kept and dropped (chat debug mode) */
+  onRetrieval?: (trace: RetrievalTrace) => void;
+}
+
+/**
+ * Per-stage results of one retrieveContext call
+ */
+export interface RetrievalTrace {
+  searches: SearchTrace[];
+  reranker: RerankerName;
+  minScore: number;
+  /** Merged (and reranked) candidates, best first */
+  candidates: SearchResult[];
+  /** Dropped by the min score cutoff */
+  belowMinScore: SearchResult[];
+  /** Passed the cutoff but not picked by MMR / maxResults */
+  notSelected: SearchResult[];
+  selected: SearchResult[];
+  timings: { searchMs: number; rerankMs: number };
+}
+
+export function getRetrievalOptions(): Required<Omit<RetrievalOptions, keyof SearchOptions | 'expansions' | 'onRetrieval'>> {
+  return {
+    candidatePoolSize: envNumber('RETRIEVAL_CANDIDATES', 20),
+    minScore: envNumber('RETRIEVAL_MIN_SCORE', 0),
+    maxResults: envNumber('RETRIEVAL_MAX_RESULTS', 3),
+    mmrLambda: envNumber('RETRIEVAL_MMR_LAMBDA', 0.7),
+    reranker: (process.env.RERANKER as RerankerName | undefined) || 'none',
+  };
+}
+
+/**
+ * Jaccard overlap of chunk terms - cheap near-duplicate signal that works in every search mode
+ */
+function termOverlap(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const term of a) {
+    if (b.has(term)) shared++;
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Maximal Marginal Relevance selection
+ * Each pick maximizes lambda * relevance - (1 - lambda) * similarity to already picked chunks
+ */
+export function selectDiverse(results: SearchResult[], maxResults: number, lambda: number): SearchResult[] {
+  if (lambda >= 1 || results.length <= 1) {
+    return results.slice(0, maxResults);
+  }
+
+  const maxScore = Math.max(0, ...results.map((r) => r.score));
+  const remaining = results.map((result) => ({
+    result,
+    relevance: maxScore > 0 ? result.score / maxScore : 0,
+    terms: new Set(tokenize(result.document.content)),
+  }));
+  const selected: typeof remaining = [];
+
+  while (selected.length < maxResults && remaining.length > 0) {
+    let bestIndex = 0;
+    let bestValue = -Infinity;
+    remaining.forEach((candidate, i) => {
+      const redundancy = Math.max(0, ...selected.map((s) => termOverlap(candidate.terms, s.terms)));
+      const value = lambda * candidate.relevance - (1 - lambda) * redundancy;
+      if (value > bestValue) {
+        bestValue = value;
+        bestIndex = i;
+      }
+    });
+    selected.push(remaining.splice(bestIndex, 1)[0]);
+  }
+
+  return selected.map(({ result }) => result);
+}
+
+/**
+ * Retrieve context chunks for a question
+ * Options not given fall back to RETRIEVAL_* / RERANKER env settings
+ */
+export async function retrieveContext(query: string, options: RetrievalOptions = {}): Promise<SearchResult[]> {
+  const defaults = getRetrievalOptions();
+  const candidatePoolSize = options.candidatePoolSize ?? defaults.candidatePoolSize;
+  const minScore = options.minScore ?? defaults.minScore;
+  const maxResults = options.maxResults ?? defaults.maxResults;
+  const mmrLambda = options.mmrLambda ?? defaults.mmrLambda;
+  const rerankerName = options.reranker ?? defaults.reranker;
+
+  const searches: SearchTrace[] = [];
+  const searchOptions: SearchOptions = {
+    filter: options.filter,
+    mode: options.mode,
+    fusion: options.fusion,
+    weights: options.weights,
+    onSearch: options.onRetrieval || options.onSearch
+      ? (trace) => {
+          searches.push(trace);
+          options.onSearch?.(trace);
+        }
+      : undefined,
+  };
+  const searchStartedAt = Date.now();
+  const poolSize = Math.max(candidatePoolSize, maxResults);
+
+  // Sequential on purpose: the first search may (re-)initialize embeddings
+  let candidates = await searchSimilarDocuments(query, poolSize, searchOptions);
+  if (options.expansions && options.expansions.length > 0) {
+    const merged = new Map(candidates.map((result) => [result.chunkId, result]));
+    for (const expansion of options.expansions) {
+      for (const result of await searchSimilarDocuments(expansion, poolSize, searchOptions)) {
+        const existing = merged.get(result.chunkId);
+        if (!existing || result.score > existing.score) merged.set(result.chunkId, result);
+      }
+    }
+    candidates = Array.from(merged.values())
+      .sort((a, b) => b.score - a.score)
+      .slice(0, poolSize);
+  }
+
+  const rerankStartedAt = Date.now();
+  const reranker = createReranker(rerankerName);
+  if (reranker && candidates.length > 0) {
+    candidates = await reranker.rerank(query, candidates);
+  }
+  const rerankMs = Date.now() - rerankStartedAt;
+
+  const aboveMinScore = candidates.filter((result) => result.score > minScore);
+  const selected = selectDiverse(aboveMinScore, maxResults, mmrLambda);
+
+  if (options.onRetrieval) {
+    const selectedIds = new Set(selected.map((result) => result.chunkId));
+    options.onRetrieval({
+      searches,
+      reranker: rerankerName,
+      minScore,
+      candidates,
+      belowMinScore: candidates.filter((result) => result.score <= minScore),
+      notSelected: aboveMinScore.filter((result) => !selectedIds.has(result.chunkId)),
+      selected,
+      timings: { searchMs: rerankStartedAt - searchStartedAt, rerankMs },
+    });
+  }
+
+  return selected;
+}
@@ -0,0 +1,72 @@
+import { solveChallenge } from './proof-of-work';
+
+/**
+ * Browser side of the session token flow (see /api/session)
+ *
+ * Tokens are cached and renewed shortly before they expire. Concurrent
+ * callers share one pending request, so a challenge is only solved once.
+ */
+interface CachedToken {
+  token: string | null;
+  expiresAt: number;
+}
+
+// Renew this long before expiry so a request never leaves with a stale token
+const RENEW_BEFORE_MS = 30_000;
+
+let cached: CachedToken | null = null;
+let pending: Promise<CachedToken> | null = null;
+
+async function fetchJson(input: string, init?: RequestInit) {
+  const response = await fetch(input, init);
+  if (!response.ok) {
+    // Same shape useChat gives errors, so the UI can parse the body
+    throw new Error(await response.text());
+  }
+  return response.json();
+}
+
+async function requestToken(): Promise<CachedToken> {
+  const session = await fetchJson('/api/session');
+  if (!session.required) {
+    return { token: null, expiresAt: Infinity };
+  }
+
+  const body = session.challenge
+    ? { challenge: session.challenge, solution: await solveChallenge(session.challenge, session.difficulty) }
+    : {};
+  return fetchJson('/api/session', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+/**
+ * Current session token, or null when the server doesn't require one
+ */
+export async function getSessionToken(): Promise<string | null> {
+  if (cached && cached.expiresAt - RENEW_BEFORE_MS > Date.now()) {
+    return cached.token;
+  }
+  pending ??= requestToken().finally(() => {
+    pending = null;
+  });
+  cached = await pending;
+  return cached.token;
+}
+
+/**
+ * Drop the cached token, e.g. after the server rejected it
+ */
+export function clearSessionToken(): void {
+  cached = null;
+}
+
+/**
+ * Headers for API calls that require a session token
+ */
+export async function getSessionHeaders(): Promise<Record<string, string>> {
+  const token = await getSessionToken();
+  return token ? { 'X-Session-Token': token } : {};
+}
@@ -0,0 +1,65 @@
+import { loadNodeModules } from '../node-builtins';
+import { MemoryStore, type StoreEntry } from './memory-store';
+
+type SerializedEntry =
+  | { type: 'string'; value: string; expiresAt?: number }
+  | { type: 'set'; members: string[]; expiresAt?: number };
+
+/**
+ * JSON file storage backend (Node.js only)
+ *
+ * Keeps the data in memory and writes the whole file after every write, so
+ * embeddings survive restarts during local development. The file is reloaded
+ * when another process (e.g. `npm run initialize`) modifies it.
+ * Not safe for concurrent writers - use Upstash for anything shared.
+ */
+export class FileStore extends MemoryStore {
+  private loadedMtimeMs: number | null = null;
+
+  constructor(private readonly filePath: string) {
+    super();
+  }
+
+  protected async ready(): Promise<void> {
+    const { fs } = await loadNodeModules();
+
+    let mtimeMs: number;
+    try {
+      mtimeMs = (await fs.stat(this.filePath)).mtimeMs;
+    } catch {
+      // No file yet - start empty
+      return;
+    }
+    if (mtimeMs === this.loadedMtimeMs) return;
+
+    const raw = await fs.readFile(this.filePath, 'utf8');
+    const data = JSON.parse(raw) as Record<string, SerializedEntry>;
+
+    this.entries = new Map<string, StoreEntry>();
+    for (const [key, entry] of Object.entries(data)) {
+      if (entry.type === 'set') {
+        this.entries.set(key, { type: 'set', members: new Set(entry.members), expiresAt: entry.expiresAt });
+      } else {
+        this.entries.set(key, entry);
+      }
+    }
+    this.loadedMtimeMs = mtimeMs;
+  }
+
+  protected async persist(): Promise<void> {
+    const { fs, path } = await loadNodeModules();
+
+    const data: Record<string, SerializedEntry> = {};
+    const now = Date.now();
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt !== undefined && entry.expiresAt <= now) continue;
+      data[key] = entry.type === 'set'
+        ? { type: 'set', members: Array.from(entry.members), expiresAt: entry.expiresAt }
+        : entry;
+    }
+
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(this.filePath, JSON.stringify(data), 'utf8');
+    this.loadedMtimeMs = (await fs.stat(this.filePath)).mtimeMs;
+  }
+}
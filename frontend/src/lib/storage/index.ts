@@ -0,0 +1,50 @@
+import { FileStore } from './file-store';
+import { MemoryStore } from './memory-store';
+import { UpstashStore } from './upstash-store';
+import type { KeyValueStore, StorageBackend } from './types';
+
+export type { KeyValueStore, ScriptContext, SetOptions, StorageBackend, StorePipeline, StoreScript } from './types';
+export { MemoryStore } from './memory-store';
+export { FileStore } from './file-store';
+export { UpstashStore } from './upstash-store';
+
+let store: KeyValueStore | null = null;
+
+/**
+ * Create a storage backend
+ *
+ * STORAGE_BACKEND=upstash (default) - Upstash Redis, required for deployments
+ * STORAGE_BACKEND=memory - in-process, data lost on restart
+ * STORAGE_BACKEND=file - JSON file at STORAGE_FILE_PATH (Node.js only)
+ */
+export function createStore(backend?: StorageBackend): KeyValueStore {
+  const selected = backend || (process.env.STORAGE_BACKEND as StorageBackend | undefined) || 'upstash';
+
+  switch (selected) {
+    case 'upstash':
+      return new UpstashStore();
+    case 'memory':
+      return new MemoryStore();
+    case 'file':
+      return new FileStore(process.env.STORAGE_FILE_PATH || '.data/store.json');
+    default:
+      throw new Error(`Unknown STORAGE_BACKEND "${selected}". Expected upstash, memory or file.`);
+  }
+}
+
+/**
+ * Get the shared storage backend (created on first use)
+ */
+export function getStore(): KeyValueStore {
+  if (!store) {
+    store = createStore();
+  }
+  return store;
+}
+
+/**
+ * Replace the shared storage backend (e.g. a fresh MemoryStore in tests)
+ */
+export function setStore(next: KeyValueStore): void {
+  store = next;
+}
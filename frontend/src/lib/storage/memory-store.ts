@@ -0,0 +1,243 @@
+import type { KeyValueStore, ScriptContext, SetOptions, StorePipeline, StoreScript } from './types';
+
+export type StoreEntry =
+  | { type: 'string'; value: string; expiresAt?: number }
+  | { type: 'set'; members: Set<string>; expiresAt?: number };
+
+type PipelineOp = () => unknown;
+
+/**
+ * Serialize like Upstash: strings are stored as-is, everything else as JSON
+ */
+function serialize(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/**
+ * Deserialize like Upstash: parse JSON when possible, otherwise return the raw string
+ */
+function deserialize<T>(raw: string): T {
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    return raw as T;
+  }
+}
+
+class MemoryPipeline implements StorePipeline {
+  private ops: PipelineOp[] = [];
+
+  constructor(private readonly store: MemoryStore) {}
+
+  get(key: string): StorePipeline {
+    this.ops.push(() => this.store.getSync(key));
+    return this;
+  }
+
+  set(key: string, value: unknown, opts?: SetOptions): StorePipeline {
+    this.ops.push(() => this.store.setSync(key, value, opts));
+    return this;
+  }
+
+  sadd(key: string, ...members: string[]): StorePipeline {
+    this.ops.push(() => this.store.saddSync(key, members));
+    return this;
+  }
+
+  srem(key: string, ...members: string[]): StorePipeline {
+    this.ops.push(() => this.store.sremSync(key, members));
+    return this;
+  }
+
+  del(...keys: string[]): StorePipeline {
+    this.ops.push(() => this.store.delSync(keys));
+    return this;
+  }
+
+  async exec<T extends unknown[] = unknown[]>(): Promise<T> {
+    return (await this.store.runBatch(this.ops)) as T;
+  }
+}
+
+/**
+ * In-process storage backend
+ *
+ * Data lives only as long as the process (or Edge isolate), which makes it
+ * suitable for local development and tests without Upstash credentials.
+ * Every operation runs synchronously once the store is ready, so batches
+ * are effectively atomic.
+ */
+export class MemoryStore implements KeyValueStore {
+  protected entries = new Map<string, StoreEntry>();
+
+  /**
+   * Hook for subclasses to load persisted data before an operation
+   */
+  protected async ready(): Promise<void> {}
+
+  /**
+   * Hook for subclasses to persist data after a write
+   */
+  protected async persist(): Promise<void> {}
+
+  private async run<T>(op: () => T, write: boolean): Promise<T> {
+    await this.ready();
+    const result = op();
+    if (write) await this.persist();
+    return result;
+  }
+
+  async runBatch(ops: PipelineOp[]): Promise<unknown[]> {
+    return this.run(() => ops.map((op) => op()), true);
+  }
+
+  private lookup(key: string): StoreEntry | undefined {
+    const entry = this.entries.get(key);
+    if (entry?.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  getSync<T>(key: string): T | null {
+    const entry = this.lookup(key);
+    if (!entry) return null;
+    if (entry.type !== 'string') {
+      throw new Error(`WRONGTYPE key ${key} does not hold a string`);
+    }
+    return deserialize<T>(entry.value);
+  }
+
+  setSync(key: string, value: unknown, opts?: SetOptions): 'OK' {
+    this.entries.set(key, {
+      type: 'string',
+      value: serialize(value),
+      expiresAt: opts?.ex ? Date.now() + opts.ex * 1000 : undefined,
+    });
+    return 'OK';
+  }
+
+  delSync(keys: string[]): number {
+    let removed = 0;
+    for (const key of keys) {
+      if (this.lookup(key)) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  incrSync(key: string): number {
+    const entry = this.lookup(key);
+    if (entry && entry.type !== 'string') {
+      throw new Error(`WRONGTYPE key ${key} does not hold a string`);
+    }
+    const current = entry ? Number(entry.value) : 0;
+    if (!Number.isInteger(current)) {
+      throw new Error(`Value at ${key} is not an integer`);
+    }
+    const next = current + 1;
+    // INCR keeps the existing expiry
+    this.entries.set(key, { type: 'string', value: String(next), expiresAt: entry?.expiresAt });
+    return next;
+  }
+
+  ttlSync(key: string): number {
+    const entry = this.lookup(key);
+    if (!entry) return -2;
+    if (entry.expiresAt === undefined) return -1;
+    return Math.ceil((entry.expiresAt - Date.now()) / 1000);
+  }
+
+  smembersSync(key: string): string[] {
+    const entry = this.lookup(key);
+    if (!entry) return [];
+    if (entry.type !== 'set') {
+      throw new Error(`WRONGTYPE key ${key} does not hold a set`);
+    }
+    return Array.from(entry.members);
+  }
+
+  saddSync(key: string, members: string[]): number {
+    const entry = this.lookup(key);
+    if (entry && entry.type !== 'set') {
+      throw new Error(`WRONGTYPE key ${key} does not hold a set`);
+    }
+    const set = entry ? entry.members : new Set<string>();
+    let added = 0;
+    for (const member of members) {
+      if (!set.has(member)) {
+        set.add(member);
+        added++;
+      }
+    }
+    this.entries.set(key, { type: 'set', members: set, expiresAt: entry?.expiresAt });
+    return added;
+  }
+
+  sremSync(key: string, members: string[]): number {
+    const entry = this.lookup(key);
+    if (!entry) return 0;
+    if (entry.type !== 'set') {
+      throw new Error(`WRONGTYPE key ${key} does not hold a set`);
+    }
+    let removed = 0;
+    for (const member of members) {
+      if (entry.members.delete(member)) removed++;
+    }
+    // Redis deletes empty sets
+    if (entry.members.size === 0) this.entries.delete(key);
+    return removed;
+  }
+
+  async get<T = unknown>(key: string): Promise<T | null> {
+    return this.run(() => this.getSync<T>(key), false);
+  }
+
+  async set(key: string, value: unknown, opts?: SetOptions): Promise<unknown> {
+    return this.run(() => this.setSync(key, value, opts), true);
+  }
+
+  async del(...keys: string[]): Promise<number> {
+    return this.run(() => this.delSync(keys), true);
+  }
+
+  async incr(key: string): Promise<number> {
+    return this.run(() => this.incrSync(key), true);
+  }
+
+  async ttl(key: string): Promise<number> {
+    return this.run(() => this.ttlSync(key), false);
+  }
+
+  async smembers(key: string): Promise<string[]> {
+    return this.run(() => this.smembersSync(key), false);
+  }
+
+  async sadd(key: string, ...members: string[]): Promise<number> {
+    return this.run(() => this.saddSync(key, members), true);
+  }
+
+  async srem(key: string, ...members: string[]): Promise<number> {
+    return this.run(() => this.sremSync(key, members), true);
+  }
+
+  pipeline(): StorePipeline {
+    return new MemoryPipeline(this);
+  }
+
+  async eval<T>(script: StoreScript<T>, keys: string[], args: string[]): Promise<T> {
+    const context: ScriptContext = {
+      get: <V>(key: string) => this.getSync<V>(key),
+      set: (key, value, opts) => {
+        this.setSync(key, value, opts);
+      },
+      del: (key) => {
+        this.delSync([key]);
+      },
+    };
+    return this.run(() => script.run(context, keys, args), true);
+  }
+}
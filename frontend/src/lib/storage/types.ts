@@ -0,0 +1,67 @@
+/**
+ * Storage backend contract
+ *
+ * Mirrors the subset of Upstash Redis commands the app relies on, so the
+ * vector store and rate limiter run unchanged on Upstash, in memory, or
+ * against a local JSON file.
+ *
+ * Values follow Upstash semantics: non-string values are JSON-serialized on
+ * write, and reads return parsed JSON when the stored string is valid JSON.
+ */
+
+export interface SetOptions {
+  /** Expire the key after this many seconds */
+  ex?: number;
+}
+
+/**
+ * Batched commands sent in one round trip.
+ * Results are returned by `exec()` in the order commands were queued.
+ */
+export interface StorePipeline {
+  get(key: string): StorePipeline;
+  set(key: string, value: unknown, opts?: SetOptions): StorePipeline;
+  sadd(key: string, ...members: string[]): StorePipeline;
+  srem(key: string, ...members: string[]): StorePipeline;
+  del(...keys: string[]): StorePipeline;
+  exec<T extends unknown[] = unknown[]>(): Promise<T>;
+}
+
+/**
+ * Synchronous view of the store handed to `StoreScript.run`
+ */
+export interface ScriptContext {
+  get<T = unknown>(key: string): T | null;
+  set(key: string, value: unknown, opts?: SetOptions): void;
+  del(key: string): void;
+}
+
+/**
+ * Read-modify-write logic that must run atomically (e.g. rate limiting)
+ *
+ * `lua` runs on Redis via EVALSHA. `run` is the same logic for in-process
+ * backends; it executes synchronously, so no other command can interleave.
+ * The two may use different key layouts since a deployment only uses one backend.
+ */
+export interface StoreScript<T> {
+  lua: string;
+  run(store: ScriptContext, keys: string[], args: string[]): T;
+}
+
+export interface KeyValueStore {
+  get<T = unknown>(key: string): Promise<T | null>;
+  set(key: string, value: unknown, opts?: SetOptions): Promise<unknown>;
+  /** Returns the number of keys removed */
+  del(...keys: string[]): Promise<number>;
+  incr(key: string): Promise<number>;
+  /** Seconds until expiry, -1 if the key has no expiry, -2 if it doesn't exist */
+  ttl(key: string): Promise<number>;
+  smembers(key: string): Promise<string[]>;
+  sadd(key: string, ...members: string[]): Promise<number>;
+  srem(key: string, ...members: string[]): Promise<number>;
+  pipeline(): StorePipeline;
+  /** Run a script atomically */
+  eval<T>(script: StoreScript<T>, keys: string[], args: string[]): Promise<T>;
+}
+
+export type StorageBackend = 'upstash' | 'memory' | 'file';
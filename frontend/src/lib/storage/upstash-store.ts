@@ -0,0 +1,105 @@
+import { getRedisClient } from '../redis';
+import type { KeyValueStore, SetOptions, StorePipeline, StoreScript } from './types';
+
+type UpstashPipeline = ReturnType<ReturnType<typeof getRedisClient>['pipeline']>;
+type UpstashScript = ReturnType<ReturnType<typeof getRedisClient>['createScript']>;
+
+class UpstashPipelineAdapter implements StorePipeline {
+  constructor(private readonly pipeline: UpstashPipeline) {}
+
+  get(key: string): StorePipeline {
+    this.pipeline.get(key);
+    return this;
+  }
+
+  set(key: string, value: unknown, opts?: SetOptions): StorePipeline {
+    if (opts?.ex) {
+      this.pipeline.set(key, value, { ex: opts.ex });
+    } else {
+      this.pipeline.set(key, value);
+    }
+    return this;
+  }
+
+  sadd(key: string, ...members: string[]): StorePipeline {
+    const [first, ...rest] = members;
+    this.pipeline.sadd(key, first, ...rest);
+    return this;
+  }
+
+  srem(key: string, ...members: string[]): StorePipeline {
+    this.pipeline.srem(key, ...members);
+    return this;
+  }
+
+  del(...keys: string[]): StorePipeline {
+    this.pipeline.del(...keys);
+    return this;
+  }
+
+  async exec<T extends unknown[] = unknown[]>(): Promise<T> {
+    return (await this.pipeline.exec()) as T;
+  }
+}
+
+/**
+ * Upstash Redis backend (REST API, Edge-compatible)
+ * Note: Upstash uses lowercase method names (smembers, not sMembers)
+ */
+export class UpstashStore implements KeyValueStore {
+  private scripts = new Map<StoreScript<unknown>, UpstashScript>();
+
+  async get<T = unknown>(key: string): Promise<T | null> {
+    return getRedisClient().get<T>(key);
+  }
+
+  async set(key: string, value: unknown, opts?: SetOptions): Promise<unknown> {
+    // Upstash syntax: set(key, value, { ex: seconds })
+    if (opts?.ex) {
+      return getRedisClient().set(key, value, { ex: opts.ex });
+    }
+    return getRedisClient().set(key, value);
+  }
+
+  async del(...keys: string[]): Promise<number> {
+    if (keys.length === 0) return 0;
+    return getRedisClient().del(...keys);
+  }
+
+  async incr(key: string): Promise<number> {
+    return getRedisClient().incr(key);
+  }
+
+  async ttl(key: string): Promise<number> {
+    return getRedisClient().ttl(key);
+  }
+
+  async smembers(key: string): Promise<string[]> {
+    return getRedisClient().smembers(key);
+  }
+
+  async sadd(key: string, ...members: string[]): Promise<number> {
+    if (members.length === 0) return 0;
+    const [first, ...rest] = members;
+    return getRedisClient().sadd(key, first, ...rest);
+  }
+
+  async srem(key: string, ...members: string[]): Promise<number> {
+    if (members.length === 0) return 0;
+    return getRedisClient().srem(key, ...members);
+  }
+
+  pipeline(): StorePipeline {
+    return new UpstashPipelineAdapter(getRedisClient().pipeline());
+  }
+
+  async eval<T>(script: StoreScript<T>, keys: string[], args: string[]): Promise<T> {
+    // createScript uses EVALSHA and falls back to EVAL when the script isn't cached yet
+    let upstashScript = this.scripts.get(script);
+    if (!upstashScript) {
+      upstashScript = getRedisClient().createScript(script.lua);
+      this.scripts.set(script, upstashScript);
+    }
+    return (await upstashScript.exec(keys, args)) as T;
+  }
+}
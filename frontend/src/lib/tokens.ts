@@ -0,0 +1,25 @@
+/**
+ * Rough token estimate (~4 characters per token for English text)
+ * Good enough for budgeting - no tokenizer download needed on the Edge
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'did', 'do', 'does', 'for', 'from',
+  'has', 'have', 'he', 'her', 'his', 'how', 'i', 'in', 'is', 'it', 'its', 'me', 'my', 'of',
+  'on', 'or', 'our', 'she', 'so', 'that', 'the', 'their', 'them', 'they', 'this', 'to', 'was',
+  'we', 'were', 'what', 'when', 'where', 'which', 'who', 'why', 'with', 'you', 'your',
+]);
+
+/**
+ * Lowercase word tokens with stop words removed
+ * Keeps tech-style tokens together (next.js, c++, c#)
+ */
+export function tokenize(text: string): string[] {
+  const tokens = text.toLowerCase().match(/[a-z0-9]+(?:[.+#][a-z0-9+#]*)*/g) || [];
+  return tokens
+    .map((token) => token.replace(/\.+$/, ''))
+    .filter((token) => token.length > 0 && !STOP_WORDS.has(token));
+}
@@ -1,6 +1,22 @@
-import { redis } from './redis';
+import { getStore } from './storage';
 import { generateEmbedding, generateEmbeddings, generatePortfolioHash } from './embeddings';
-import { portfolioDocuments } from '@/data/portfolio';
+import { getEmbeddingModelId, getEmbeddingProvider } from './embedding-providers';
+import { chunkDocument, chunkDocuments, getChunkOptions, type DocumentChunk } from './chunking';
+import { getContentDirectory, getContentDirectoryStamp, loadContentDirectory } from './ingestion';
+import { matchesFilter, type MetadataFilter } from './metadata-filter';
+import { buildBm25Index, scoreBm25, type Bm25Index } from './bm25';
+import {
+  fuseScores,
+  getDefaultFusionMethod,
+  getDefaultFusionWeights,
+  getDefaultSearchMode,
+  type FusionMethod,
+  type FusionWeights,
+  type SearchMode,
+} from './hybrid-search';
+import { isQuotaOrRateLimitError, RetrievalEmptyError } from './errors';
+import { setQueryCache } from './query-cache';
+import { envNumber } from './env';
 
 export interface Document {
   id: string;
@@ -9,12 +25,192 @@ export interface Document {
 }
 
 /**
- * Check if portfolio embeddings are already initialized in Redis
+ * A search hit: `document` carries the parent document id and metadata,
+ * with `content` set to the matched chunk's text
+ */
+export interface SearchResult {
+  document: Document;
+  chunkId: string;
+  chunkIndex: number;
+  /** Cosine similarity (vector), BM25 (lexical) or fused score (hybrid) */
+  score: number;
+  /** Per-retriever scores behind `score` */
+  scores: { vector?: number; lexical?: number; rerank?: number };
+}
+
+export interface SearchOptions {
+  /** Only chunks whose document metadata matches are scored */
+  filter?: MetadataFilter;
+  /** Defaults to SEARCH_MODE (hybrid) */
+  mode?: SearchMode;
+  /** Defaults to HYBRID_FUSION (rrf) */
+  fusion?: FusionMethod;
+  /** Defaults to HYBRID_VECTOR_WEIGHT / HYBRID_LEXICAL_WEIGHT */
+  weights?: FusionWeights;
+  /** Called with a trace of the search once it finishes (chat debug mode) */
+  onSearch?: (trace: SearchTrace) => void;
+}
+
+/**
+ * What one search did - reported through `SearchOptions.onSearch`
+ */
+export interface SearchTrace {
+  query: string;
+  mode: SearchMode;
+  /** `skipped` in lexical mode, `unavailable` when hybrid fell back to lexical */
+  queryEmbedding: 'cached' | 'generated' | 'skipped' | 'unavailable';
+  similarityThreshold: number;
+  /** Closest chunks the vector threshold dropped, highest similarity first */
+  belowThreshold: { chunkId: string; similarity: number }[];
+  vectorMatches: number;
+  lexicalMatches: number;
+  results: number;
+  durationMs: number;
+}
+
+// Near misses kept in SearchTrace.belowThreshold
+const TRACE_NEAR_MISSES = 5;
+
+/**
+ * Stored vector record (`embedding:{chunkId}`)
+ * `docId` is the parent document, `content` the chunk text, `model` records
+ * which provider/model produced the vector, e.g. "gemini:gemini-embedding-001"
+ */
+interface StoredEmbedding {
+  embedding: number[];
+  content?: string;
+  metadata?: Record<string, unknown>;
+  docId?: string;
+  chunkIndex?: number;
+  model?: string;
+}
+
+/**
+ * What a re-embedding run changed (document ids)
+ */
+export interface ReembeddingDiff {
+  added: string[];
+  updated: string[];
+  removed: string[];
+  unchanged: string[];
+}
+
+export interface ReembeddingReport extends ReembeddingDiff {
+  chunksEmbedded: number;
+  chunksDeleted: number;
+}
+
+/**
+ * Documents managed through the admin API (`corpus:overrides`)
+ * Applied on top of the content directory (or the stored corpus on the Edge),
+ * so re-initializing from content/ keeps admin edits
+ */
+export interface CorpusOverrides {
+  /** Added or edited documents by id */
+  documents: Record<string, Document>;
+  /** Ids deleted through the admin API, including documents from content/ */
+  deleted: string[];
+}
+
+export interface DocumentStatus {
+  id: string;
+  metadata?: Record<string, unknown>;
+  contentLength: number;
+  /** `admin` when added or edited through the admin API */
+  source: 'content' | 'admin';
+  /** Hash of the current document (what an embedded copy must match) */
+  hash: string;
+  /** Hash recorded when it was last embedded */
+  storedHash?: string;
+  chunks: number;
+  chunksEmbedded: number;
+  /** current: embedded and up to date; stale: changed since; missing: never embedded */
+  status: 'current' | 'stale' | 'missing';
+}
+
+export interface ReembedOptions {
+  /** Re-embed these documents (or all with `true`) even if their hash is unchanged */
+  force?: true | string[];
+}
+
+interface ReembeddingPlan extends ReembeddingDiff {
+  documentHashes: Record<string, string>;
+  chunksToEmbed: DocumentChunk[];
+  orphanChunkIds: string[];
+  lexicalIndexMissing: boolean;
+}
+
+// Bump when the stored record format changes so existing embeddings are rebuilt
+const STORAGE_FORMAT_VERSION = 2;
+
+/**
+ * Hash of one document plus everything that shapes its vectors
+ * Changing the embedding model or CHUNK_MAX_TOKENS/CHUNK_OVERLAP_TOKENS re-embeds it too
+ */
+async function computeDocumentHash(doc: Document, model: string): Promise<string> {
+  return generatePortfolioHash(
+    JSON.stringify({ version: STORAGE_FORMAT_VERSION, model, chunking: getChunkOptions(), doc })
+  );
+}
+
+/**
+ * Get the corpus saved by the last initialization
+ */
+export async function getStoredDocuments(): Promise<Document[]> {
+  try {
+    const stored = await getStore().get<Document[] | string>('corpus:documents');
+    if (!stored) return [];
+    return typeof stored === 'string' ? (JSON.parse(stored) as Document[]) : stored;
+  } catch (error) {
+    console.error('Error getting stored documents:', error);
+    return [];
+  }
+}
+
+export async function getCorpusOverrides(): Promise<CorpusOverrides> {
+  const stored = await getStore().get<CorpusOverrides | string>('corpus:overrides');
+  const overrides = typeof stored === 'string' ? (JSON.parse(stored) as CorpusOverrides) : stored;
+  return { documents: overrides?.documents || {}, deleted: overrides?.deleted || [] };
+}
+
+export async function saveCorpusOverrides(overrides: CorpusOverrides): Promise<void> {
+  await getStore().set('corpus:overrides', JSON.stringify(overrides));
+}
+
+/**
+ * Base documents with admin edits applied (idempotent, so applying to an
+ * already-merged stored corpus is safe)
+ */
+function applyCorpusOverrides(docs: Document[], overrides: CorpusOverrides): Document[] {
+  const deleted = new Set(overrides.deleted);
+  const merged = new Map<string, Document>();
+  for (const doc of docs) {
+    if (!deleted.has(doc.id)) merged.set(doc.id, doc);
+  }
+  for (const [id, doc] of Object.entries(overrides.documents)) {
+    merged.set(id, doc);
+  }
+  return Array.from(merged.values());
+}
+
+/**
+ * Load the portfolio corpus
+ * Reads the content directory when the runtime has a filesystem (scripts,
+ * Node.js routes); on the Edge, falls back to the corpus saved in the store.
+ * Admin API edits are applied on top either way.
+ */
+export async function loadPortfolioDocuments(): Promise<Document[]> {
+  const [fromContent, overrides] = await Promise.all([loadContentDirectory(), getCorpusOverrides()]);
+  const base = fromContent && fromContent.length > 0 ? fromContent : await getStoredDocuments();
+  return applyCorpusOverrides(base, overrides);
+}
+
+/**
+ * Check if portfolio embeddings are already initialized in the store
  */
 export async function areEmbeddingsInitialized(): Promise<boolean> {
   try {
-    // Note: Upstash uses lowercase method names (smembers, not sMembers)
-    const docIds = await redis.smembers('documents:ids');
+    const docIds = await getStore().smembers('documents:ids');
     return docIds.length > 0;
   } catch (error) {
     console.error('Error checking embeddings:', error);
@@ -23,200 +219,468 @@ export async function areEmbeddingsInitialized(): Promise<boolean> {
 }
 
 /**
- * Get current portfolio hash from Redis
+ * Hash of the embedded corpus (`portfolio:hash`), null before the first initialization
+ * Changes whenever a document is added, edited or removed and re-embedded
  */
-async function getPortfolioHash(): Promise<string | null> {
-  try {
-    return await redis.get('portfolio:hash');
-  } catch (error) {
-    console.error('Error getting portfolio hash:', error);
-    return null;
+export async function getCorpusHash(): Promise<string | null> {
+  const hash = await getStore().get<string>('portfolio:hash');
+  return hash ? String(hash) : null;
+}
+
+/**
+ * Get per-document hashes from the last initialization
+ */
+async function getDocumentHashes(): Promise<Record<string, string>> {
+  const stored = await getStore().get<Record<string, string> | string>('portfolio:doc-hashes');
+  if (!stored) return {};
+  return typeof stored === 'string' ? (JSON.parse(stored) as Record<string, string>) : stored;
+}
+
+/**
+ * Compare documents against the stored per-document hashes
+ *
+ * A document is re-embedded when it's new, its hash changed, or any of its
+ * chunk embeddings is missing. Stored chunks that no current document
+ * produces (removed documents, shrunk documents, legacy records) are orphans.
+ * `options.force` marks documents as updated regardless of their hash.
+ */
+async function planReembedding(docs: Document[], options: ReembedOptions = {}): Promise<ReembeddingPlan> {
+  const model = getEmbeddingModelId();
+  const [storedHashes, storedChunkIds, lexicalIndex] = await Promise.all([
+    getDocumentHashes(),
+    getStore().smembers('documents:ids'),
+    getStore().get('lexical:index'),
+  ]);
+  const existingChunkIds = new Set(storedChunkIds);
+  const expectedChunkIds = new Set<string>();
+  const isForced = (id: string) => options.force === true || (options.force?.includes(id) ?? false);
+
+  const plan: ReembeddingPlan = {
+    added: [],
+    updated: [],
+    removed: [],
+    unchanged: [],
+    documentHashes: {},
+    chunksToEmbed: [],
+    orphanChunkIds: [],
+    lexicalIndexMissing: !lexicalIndex,
+  };
+
+  for (const doc of docs) {
+    const hash = await computeDocumentHash(doc, model);
+    const chunks = chunkDocument(doc);
+    plan.documentHashes[doc.id] = hash;
+    chunks.forEach((chunk) => expectedChunkIds.add(chunk.id));
+
+    const storedHash = storedHashes[doc.id];
+    if (!storedHash) {
+      plan.added.push(doc.id);
+    } else if (isForced(doc.id) || storedHash !== hash || chunks.some((chunk) => !existingChunkIds.has(chunk.id))) {
+      plan.updated.push(doc.id);
+    } else {
+      plan.unchanged.push(doc.id);
+      continue;
+    }
+    plan.chunksToEmbed.push(...chunks);
   }
+
+  plan.removed = Object.keys(storedHashes).filter((id) => !(id in plan.documentHashes));
+  plan.orphanChunkIds = storedChunkIds.filter((id) => !expectedChunkIds.has(id));
+  return plan;
+}
+
+/**
+ * Diff the current portfolio documents against what's embedded, without writing anything
+ */
+export async function getReembeddingDiff(documents?: Document[]): Promise<ReembeddingDiff> {
+  const { added, updated, removed, unchanged } = await planReembedding(
+    documents || (await loadPortfolioDocuments())
+  );
+  return { added, updated, removed, unchanged };
+}
+
+/**
+ * Embedding status of every document in the corpus
+ * `removed` lists documents still embedded but no longer in the corpus
+ */
+export async function getDocumentStatuses(): Promise<{ documents: DocumentStatus[]; removed: string[] }> {
+  const model = getEmbeddingModelId();
+  const [docs, overrides, storedHashes, storedChunkIds] = await Promise.all([
+    loadPortfolioDocuments(),
+    getCorpusOverrides(),
+    getDocumentHashes(),
+    getStore().smembers('documents:ids'),
+  ]);
+  const existingChunkIds = new Set(storedChunkIds);
+
+  const documents = await Promise.all(
+    docs.map(async (doc): Promise<DocumentStatus> => {
+      const hash = await computeDocumentHash(doc, model);
+      const chunks = chunkDocument(doc);
+      const chunksEmbedded = chunks.filter((chunk) => existingChunkIds.has(chunk.id)).length;
+      const storedHash = storedHashes[doc.id];
+      return {
+        id: doc.id,
+        metadata: doc.metadata,
+        contentLength: doc.content.length,
+        source: doc.id in overrides.documents ? 'admin' : 'content',
+        hash,
+        storedHash,
+        chunks: chunks.length,
+        chunksEmbedded,
+        status: !storedHash ? 'missing' : storedHash === hash && chunksEmbedded === chunks.length ? 'current' : 'stale',
+      };
+    })
+  );
+
+  const ids = new Set(docs.map((doc) => doc.id));
+  return { documents, removed: Object.keys(storedHashes).filter((id) => !ids.has(id)) };
+}
+
+// Corpus fingerprint of the last check that found nothing to re-embed (per process)
+let lastFreshCorpus: string | null = null;
+
+/**
+ * Fingerprint of everything that decides the embedded corpus: the stored corpus
+ * hash, admin edits, the embedding model and the content files' stats
+ */
+async function getCorpusFingerprint(): Promise<string> {
+  const [corpusHash, overrides, contentStamp] = await Promise.all([
+    getCorpusHash(),
+    getStore().get('corpus:overrides'),
+    getContentDirectoryStamp(),
+  ]);
+  return generatePortfolioHash(
+    JSON.stringify([corpusHash, overrides ?? null, getEmbeddingModelId(), contentStamp])
+  );
 }
 
 /**
- * Check if portfolio needs re-embedding by comparing hashes
+ * Check if any document needs (re-)embedding or any orphaned embedding needs deleting
+ *
+ * Runs on every search, so the full check (read and hash every document) only
+ * runs when the corpus fingerprint changed since the last clean check. Chunks
+ * deleted from the store by hand aren't noticed until then - `force` re-checks.
  */
-export async function needsReembedding(): Promise<boolean> {
+export async function needsReembedding(options: { force?: boolean } = {}): Promise<boolean> {
   try {
-    const portfolioContent = JSON.stringify(portfolioDocuments);
-    const currentHash = await generatePortfolioHash(portfolioContent);
-    const storedHash = await getPortfolioHash();
-    return !storedHash || storedHash !== currentHash;
+    const fingerprint = await getCorpusFingerprint();
+    if (!options.force && fingerprint === lastFreshCorpus) {
+      return false;
+    }
+
+    const plan = await planReembedding(await loadPortfolioDocuments());
+    const stale = (
+      plan.added.length > 0 ||
+      plan.updated.length > 0 ||
+      plan.removed.length > 0 ||
+      plan.orphanChunkIds.length > 0 ||
+      plan.lexicalIndexMissing
+    );
+    lastFreshCorpus = stale ? null : fingerprint;
+    return stale;
   } catch (error) {
-    console.error('Error checking portfolio hash:', error);
+    console.error('Error checking portfolio hashes:', error);
     return true; // If error, assume needs re-embedding
   }
 }
 
 /**
- * Store documents using batch embeddings and Redis pipeline
- * Batch embeddings = 1 API call for all docs (stays under 15 RPM limit)
+ * Apply a re-embedding plan using batch embeddings and a store pipeline
+ * Only added/changed chunks are embedded (saves the 1,500/day quota)
+ * Batch embeddings = 1 API call per 100 chunks (stays under 15 RPM limit)
  * Pipeline = 1 network round trip for all Redis commands (saves on 10k/day limit)
+ *
+ * Embeddings are generated before anything is written, so a failed API call
+ * leaves the previous index intact.
  */
-async function storeDocuments(docs: Document[]): Promise<void> {
-  console.log(`Generating embeddings for ${docs.length} documents...`);
-  const embeddings = await generateEmbeddings(docs.map((d) => d.content));
+async function applyReembeddingPlan(docs: Document[], plan: ReembeddingPlan): Promise<void> {
+  const model = getEmbeddingModelId();
+  const chunks = plan.chunksToEmbed;
+  let embeddings: number[][] = [];
+  if (chunks.length > 0) {
+    console.log(`Generating embeddings for ${chunks.length} chunks with ${model}...`);
+    embeddings = await generateEmbeddings(chunks.map((c) => c.content));
+    // Vectors are matched to chunks by position; a count mismatch (skipped blank
+    // text, short provider reply) would store them on the wrong chunks
+    if (embeddings.length !== chunks.length) {
+      throw new Error(`Embedding count mismatch: ${embeddings.length} embeddings for ${chunks.length} chunks`);
+    }
+  }
   
-  const pipeline = redis.pipeline();
+  const store = getStore();
+  const pipeline = store.pipeline();
   
-  for (let i = 0; i < docs.length; i++) {
-    const doc = docs[i];
-    const key = `embedding:${doc.id}`;
+  for (let i = 0; i < chunks.length; i++) {
+    const chunk = chunks[i];
+    const key = `embedding:${chunk.id}`;
     
     pipeline.set(
       key,
       JSON.stringify({
         embedding: embeddings[i],
-        metadata: doc.metadata || {},
-        docId: doc.id,
-      })
+        content: chunk.content,
+        metadata: chunk.metadata || {},
+        docId: chunk.parentId,
+        chunkIndex: chunk.index,
+        model,
+      } satisfies StoredEmbedding)
     );
-    pipeline.sadd('documents:ids', doc.id);
+    pipeline.sadd('documents:ids', chunk.id);
+  }
+
+  // Delete embeddings no current document produces
+  if (plan.orphanChunkIds.length > 0) {
+    pipeline.del(...plan.orphanChunkIds.map((id) => `embedding:${id}`));
+    pipeline.srem('documents:ids', ...plan.orphanChunkIds);
   }
   
-  await pipeline.exec();
+  // Keep the source documents so Edge routes can re-embed without filesystem access
+  pipeline.set('corpus:documents', JSON.stringify(docs));
+
+  // BM25 index over every current chunk - rebuilt in full since it costs no API calls
+  pipeline.set('lexical:index', JSON.stringify(buildBm25Index(chunkDocuments(docs))));
+
+  // Per-document hashes drive incremental updates; the combined hash versions the whole corpus
+  const corpusHash = await generatePortfolioHash(
+    JSON.stringify(Object.entries(plan.documentHashes).sort(([a], [b]) => a.localeCompare(b)))
+  );
+  pipeline.set('portfolio:doc-hashes', JSON.stringify(plan.documentHashes));
+  pipeline.set('portfolio:hash', corpusHash);
   
-  // Store hash to detect portfolio changes (triggers auto-re-embedding)
-  const portfolioContent = JSON.stringify(docs);
-  const hash = await generatePortfolioHash(portfolioContent);
-  await redis.set('portfolio:hash', hash);
+  await pipeline.exec();
 }
 
 /**
- * Get document content from portfolio data (stored in code)
+ * Get the query embedding, cached for 24h under `query:embedding:*`
+ * Keyed by model too, so switching providers never reuses incompatible vectors
  */
-function getDocumentContent(docId: string): string | null {
-  const doc = portfolioDocuments.find((d) => d.id === docId);
-  return doc?.content || null;
+export async function getQueryEmbedding(query: string): Promise<{ embedding: number[]; cached: boolean }> {
+  const store = getStore();
+  const model = getEmbeddingModelId();
+  const queryHash = await generatePortfolioHash(`${model}\n${query.trim().toLowerCase()}`);
+  const queryCacheKey = `query:embedding:${queryHash}`;
+
+  // Stores auto-parse JSON, so the cached value may come back as an array or a string
+  const cachedEmbedding = await store.get<number[] | string>(queryCacheKey);
+  if (Array.isArray(cachedEmbedding)) {
+    console.log('Using cached query embedding');
+    return { embedding: cachedEmbedding, cached: true };
+  }
+  if (cachedEmbedding && typeof cachedEmbedding === 'string') {
+    console.log('Using cached query embedding');
+    return { embedding: JSON.parse(cachedEmbedding), cached: true };
+  }
+
+  console.log('Generating new query embedding...');
+  const queryEmbedding = await generateEmbedding(query);
+  await setQueryCache(queryCacheKey, JSON.stringify(queryEmbedding));
+  console.log('Query embedding cached for 24 hours');
+  return { embedding: queryEmbedding, cached: false };
 }
 
 /**
- * Search for similar documents using cosine similarity
- * 
- * Uses Redis pipeline for batch GET (saves commands)
- * Only embeddings stored in Redis, content retrieved from code (saves storage)
- * Query embeddings cached for 24h (prevents duplicate API calls)
+ * Parse a stored record - handles both string (raw) and object (auto-parsed) from the store
  */
-export async function searchSimilarDocuments(
-  query: string,
-  limit: number = 5
-): Promise<Array<{ document: Document; score: number }>> {
+function parseStoredValue<T>(rawData: unknown, label: string): T | null {
+  if (!rawData) return null;
+  if (typeof rawData !== 'string') return rawData as T;
+  try {
+    return JSON.parse(rawData) as T;
+  } catch (e) {
+    console.error(`Failed to parse ${label}`, e);
+    return null;
+  }
+}
+
+/**
+ * Initialize the index if it's missing and re-embed changed documents
+ * A failed re-embed is tolerated outside vector mode - the stale index still
+ * answers lexical queries.
+ */
+export async function ensureIndexFresh(mode: SearchMode = getDefaultSearchMode()): Promise<void> {
   // Auto-initialize if embeddings don't exist
   const isInitialized = await areEmbeddingsInitialized();
   if (!isInitialized) {
     console.log('Embeddings not found. Auto-initializing...');
     await initializePortfolioData();
-  }
-  
-  // Auto-update if portfolio content changed
-  const needsUpdate = await needsReembedding();
-  if (needsUpdate) {
+  } else if (await needsReembedding()) {
+    // Auto-update if portfolio content changed (only changed documents are re-embedded)
     console.log('Portfolio content changed. Re-embedding...');
-    await initializePortfolioData();
+    try {
+      await initializePortfolioData();
+    } catch (error) {
+      // A stale index still answers lexical queries - don't fail the request over it
+      if (mode === 'vector' || !isQuotaOrRateLimitError(error)) throw error;
+      console.warn('Re-embedding skipped (embedding API unavailable), searching existing index');
+    }
   }
+}
 
-  // Cache query embeddings - identical queries reuse cached embedding (24h TTL)
-  const queryHash = await generatePortfolioHash(query.trim().toLowerCase());
-  const queryCacheKey = `query:embedding:${queryHash}`;
-  let queryEmbedding: number[];
-  
-  try {
-    const cachedEmbedding = await redis.get(queryCacheKey);
-    if (cachedEmbedding && typeof cachedEmbedding === 'string') {
-      queryEmbedding = JSON.parse(cachedEmbedding);
-      console.log('Using cached query embedding');
-    } else {
-      console.log('Generating new query embedding...');
-      queryEmbedding = await generateEmbedding(query);
-      await redis.set(queryCacheKey, JSON.stringify(queryEmbedding), { ex: 86400 });
-      console.log('Query embedding cached for 24 hours');
-    }
-  } catch (error) {
-    // CRITICAL: Never retry embedding generation - it will fail again and cause duplicate API calls
-    // This prevents double billing and rate limit hits
-    if (error instanceof Error) {
-      const errorMsg = error.message.toLowerCase();
-      if (
-        errorMsg.includes('quota') ||
-        errorMsg.includes('rate limit') ||
-        errorMsg.includes('limit: 0') ||
-        errorMsg.includes('free tier') ||
-        errorMsg.includes('429') ||
-        errorMsg.includes('403')
-      ) {
+/**
+ * Cosine cutoff for vector matches
+ * VECTOR_MIN_SIMILARITY overrides the provider's default (Gemini 0.5, OpenAI 0.3,
+ * local 0.05); set it low to leave relevance to RETRIEVAL_MIN_SCORE alone.
+ */
+export function getVectorSimilarityThreshold(): number {
+  return envNumber('VECTOR_MIN_SIMILARITY', getEmbeddingProvider().similarityThreshold);
+}
+
+/**
+ * Search for similar document chunks
+ *
+ * Modes (`options.mode`, default SEARCH_MODE=hybrid):
+ * - vector: cosine similarity above VECTOR_MIN_SIMILARITY (provider default)
+ * - lexical: BM25 keyword matches, no embedding API call
+ * - hybrid: both, fused with RRF or weighted scores; a chunk qualifies if
+ *   either retriever finds it relevant. Falls back to lexical-only when the
+ *   embedding API is rate-limited or out of quota.
+ * `options.filter` restricts candidates by metadata before scoring
+ * 
+ * Uses a store pipeline for batch GET (saves commands)
+ * Chunk text is stored with each embedding, so one round trip returns everything
+ * Query embeddings cached for 24h (prevents duplicate API calls)
+ */
+export async function searchSimilarDocuments(
+  query: string,
+  limit: number = 5,
+  options: SearchOptions = {}
+): Promise<SearchResult[]> {
+  const mode = options.mode || getDefaultSearchMode();
+  const startedAt = Date.now();
+
+  await ensureIndexFresh(mode);
+
+  const store = getStore();
+
+  // CRITICAL: Don't retry embedding generation here - the provider already goes through
+  // callUpstream, which retries transient errors only. Quota/rate-limit errors would fail
+  // again and cause duplicate API calls (double billing, more rate limit hits)
+  let queryEmbedding: number[] | null = null;
+  let embeddingSource: SearchTrace['queryEmbedding'] = 'skipped';
+  if (mode !== 'lexical') {
+    try {
+      const { embedding, cached } = await getQueryEmbedding(query);
+      queryEmbedding = embedding;
+      embeddingSource = cached ? 'cached' : 'generated';
+    } catch (error) {
+      if (mode === 'hybrid' && isQuotaOrRateLimitError(error)) {
+        embeddingSource = 'unavailable';
+        console.warn('Query embedding unavailable (rate limit/quota). Falling back to lexical search.');
+      } else {
+        if (error instanceof Error) {
+          console.error('Query embedding generation failed:', error.message);
+        }
         throw error;
       }
-      console.error('Query embedding generation failed:', error.message);
-      throw error;
     }
-    throw error;
   }
   
-  const docIds = await redis.smembers('documents:ids');
+  const chunkIds = await store.smembers('documents:ids');
   
-  if (docIds.length === 0) {
-    throw new Error('No portfolio embeddings found.');
+  if (chunkIds.length === 0) {
+    throw new RetrievalEmptyError();
   }
 
-  // Use pipeline to batch GET all embeddings (1 network round trip instead of N)
-  const pipeline = redis.pipeline();
-  for (const docId of docIds) {
-    pipeline.get(`embedding:${docId}`);
+  // Use pipeline to batch GET all embeddings + the BM25 index (1 network round trip instead of N)
+  const pipeline = store.pipeline();
+  for (const chunkId of chunkIds) {
+    pipeline.get(`embedding:${chunkId}`);
   }
+  pipeline.get('lexical:index');
   const results = await pipeline.exec();
+  const lexicalIndex = parseStoredValue<Bm25Index>(results?.[chunkIds.length], 'lexical index');
+
+  const model = getEmbeddingModelId();
+  const threshold = getVectorSimilarityThreshold();
+  const candidates = new Map<string, StoredEmbedding>();
+  const vectorScores = new Map<string, number>();
+  const belowThreshold: SearchTrace['belowThreshold'] = [];
 
-  const similarities: Array<{ document: Document; score: number }> = [];
+  // Calculate cosine similarity for each chunk
+  for (let i = 0; i < chunkIds.length; i++) {
+    const chunkId = chunkIds[i];
+    const parsed = parseStoredValue<StoredEmbedding>(results?.[i], `embedding for ${chunkId}`);
 
-  // Calculate cosine similarity for each document
-  // Handle both string (raw) and object (auto-parsed) from Upstash
-  for (let i = 0; i < docIds.length; i++) {
-    const docId = docIds[i];
-    const rawData = results?.[i];
+    if (!parsed || !Array.isArray(parsed.embedding)) continue;
+    if (options.filter && !matchesFilter(parsed.metadata, options.filter)) continue;
+    // Records from older formats have no content - they're replaced on the next re-embed
+    if (!parsed.content) continue;
 
-    if (!rawData) continue;
+    candidates.set(chunkId, parsed);
 
-    let parsed: { embedding: number[]; metadata?: Record<string, unknown>; docId?: string };
+    if (!queryEmbedding) continue;
+    // Skip vectors produced by a different provider/model (legacy records have no model)
+    if (parsed.model && parsed.model !== model) continue;
+    if (parsed.embedding.length !== queryEmbedding.length) continue;
 
-    if (typeof rawData === 'string') {
-      try {
-        parsed = JSON.parse(rawData) as { embedding: number[]; metadata?: Record<string, unknown>; docId?: string };
-      } catch (e) {
-        console.error(`Failed to parse embedding for ${docId}`, e);
-        continue;
-      }
-    } else {
-      parsed = rawData as { embedding: number[]; metadata?: Record<string, unknown>; docId?: string };
+    const similarity = cosineSimilarity(queryEmbedding, parsed.embedding);
+    if (similarity > threshold) {
+      vectorScores.set(chunkId, similarity);
+    } else if (options.onSearch) {
+      belowThreshold.push({ chunkId, similarity });
     }
+  }
 
-    if (!parsed || !Array.isArray(parsed.embedding)) continue;
+  const lexicalScores = mode !== 'vector' && lexicalIndex
+    ? scoreBm25(lexicalIndex, query, candidates.keys())
+    : new Map<string, number>();
 
-    const similarity = cosineSimilarity(queryEmbedding, parsed.embedding);
-    
-    // Content retrieved from code, not Redis (saves storage)
-    const content = getDocumentContent(docId);
-    if (!content) continue;
+  let finalScores: Map<string, number>;
+  if (mode === 'vector') {
+    finalScores = vectorScores;
+  } else if (mode === 'lexical' || !queryEmbedding) {
+    finalScores = lexicalScores;
+  } else {
+    finalScores = fuseScores(
+      vectorScores,
+      lexicalScores,
+      options.fusion || getDefaultFusionMethod(),
+      options.weights || getDefaultFusionWeights()
+    );
+  }
 
-    similarities.push({
+  const ranked: SearchResult[] = [];
+  for (const [chunkId, score] of finalScores) {
+    const parsed = candidates.get(chunkId)!;
+    ranked.push({
       document: {
-        id: docId,
-        content,
+        id: parsed.docId || chunkId,
+        content: parsed.content!,
         metadata: parsed.metadata,
       },
-      score: similarity,
+      chunkId,
+      chunkIndex: parsed.chunkIndex ?? 0,
+      score,
+      scores: { vector: vectorScores.get(chunkId), lexical: lexicalScores.get(chunkId) },
     });
   }
 
-  return similarities
+  const topResults = ranked
     .sort((a, b) => b.score - a.score)
-    .slice(0, limit)
-    .filter((r) => r.score > 0.5);
+    .slice(0, limit);
+
+  options.onSearch?.({
+    query,
+    mode,
+    queryEmbedding: embeddingSource,
+    similarityThreshold: threshold,
+    belowThreshold: belowThreshold
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, TRACE_NEAR_MISSES),
+    vectorMatches: vectorScores.size,
+    lexicalMatches: lexicalScores.size,
+    results: topResults.length,
+    durationMs: Date.now() - startedAt,
+  });
+
+  return topResults;
 }
 
 /**
  * Calculate cosine similarity between two vectors
  */
-function cosineSimilarity(vecA: number[], vecB: number[]): number {
+export function cosineSimilarity(vecA: number[], vecB: number[]): number {
   if (vecA.length !== vecB.length) {
     throw new Error('Vectors must have the same length');
   }
@@ -238,37 +702,60 @@ function cosineSimilarity(vecA: number[], vecB: number[]): number {
 }
 
 /**
- * Initialize portfolio data - stores embeddings in Redis
- * Only embeddings stored (not content) - content stays in code to save storage
- * Auto-detects changes via hash comparison and re-embeds when needed
+ * Initialize portfolio data - stores embeddings and the corpus in the configured store
+ * Defaults to the content directory (or the stored corpus on the Edge)
+ *
+ * Incremental: only added or changed documents are embedded, and embeddings
+ * for removed documents are deleted. `documents` is treated as the full corpus.
+ * `options.force` re-embeds documents even when unchanged.
  */
-export async function initializePortfolioData(documents?: Document[]): Promise<void> {
-  const docsToStore = documents || portfolioDocuments;
+export async function initializePortfolioData(
+  documents?: Document[],
+  options: ReembedOptions = {}
+): Promise<ReembeddingReport> {
+  const docsToStore = documents || (await loadPortfolioDocuments());
   
   if (docsToStore.length === 0) {
-    throw new Error('No portfolio documents to initialize');
+    throw new Error(
+      `No portfolio documents to initialize. Add Markdown, text or JSON files to ${getContentDirectory()}/ ` +
+      'and run `npm run initialize`.'
+    );
   }
 
   console.log('Initializing portfolio embeddings...');
-  console.log('Note: Only embeddings are stored in Redis. Content is kept in code.');
   
-  await storeDocuments(docsToStore);
-  console.log(`Stored embeddings for ${docsToStore.length} documents`);
-  console.log('Embeddings will persist in Redis - auto-updates when portfolio changes.');
+  const plan = await planReembedding(docsToStore, options);
+  await applyReembeddingPlan(docsToStore, plan);
+
+  const report: ReembeddingReport = {
+    added: plan.added,
+    updated: plan.updated,
+    removed: plan.removed,
+    unchanged: plan.unchanged,
+    chunksEmbedded: plan.chunksToEmbed.length,
+    chunksDeleted: plan.orphanChunkIds.length,
+  };
+  console.log(
+    `Re-embedding: ${report.added.length} added, ${report.updated.length} updated, ` +
+    `${report.removed.length} removed, ${report.unchanged.length} unchanged ` +
+    `(${report.chunksEmbedded} chunks embedded, ${report.chunksDeleted} deleted)`
+  );
+  return report;
 }
 
 /**
  * Get storage usage estimate (for monitoring)
+ * documentCount counts stored chunk embeddings (one per short document)
  */
 export async function getStorageUsage(): Promise<{
   documentCount: number;
   estimatedSizeKB: number;
 }> {
-  const docIds = await redis.smembers('documents:ids');
-  const estimatedSizeKB = docIds.length * 4;
+  const chunkIds = await getStore().smembers('documents:ids');
+  const estimatedSizeKB = chunkIds.length * 4;
   
   return {
-    documentCount: docIds.length,
+    documentCount: chunkIds.length,
     estimatedSizeKB,
   };
 }